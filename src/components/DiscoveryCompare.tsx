@@ -0,0 +1,304 @@
+import { useState } from 'react'
+import { loadDiscoveryMetadata } from '@/lib/discovery-inspector'
+import {
+  countBehavioralChanges,
+  diffDiscoveryMetadata,
+  type DiscoveryDiff,
+  type DiscoveryListCategory,
+} from '@/lib/discovery-diff'
+import type { PublicProviderConfig } from '@/lib/idp-registry'
+
+interface CompareSource {
+  providerId: string
+  customUrl: string
+  useCustomUrl: boolean
+}
+
+interface CompareResult {
+  left: { source: string; discoveryUrl: string }
+  right: { source: string; discoveryUrl: string }
+  diff: DiscoveryDiff
+}
+
+const LIST_CATEGORIES: DiscoveryListCategory[] = ['grant types', 'scopes', 'algorithms', 'other']
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none'
+
+function describeSource(source: CompareSource, providers: PublicProviderConfig[]): string {
+  return source.useCustomUrl
+    ? source.customUrl
+    : providers.find((provider) => provider.id === source.providerId)?.label ?? source.providerId
+}
+
+async function loadSource(source: CompareSource) {
+  const result = await loadDiscoveryMetadata({
+    data: source.useCustomUrl ? { url: source.customUrl } : { providerId: source.providerId },
+  })
+  if (!result.metadata) {
+    throw new Error(`${result.discoveryUrl} is not a valid discovery document`)
+  }
+  return result
+}
+
+function SourcePicker({
+  label,
+  source,
+  providers,
+  onChange,
+}: {
+  label: string
+  source: CompareSource
+  providers: PublicProviderConfig[]
+  onChange: (source: CompareSource) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={source.useCustomUrl}
+            onChange={(e) => onChange({ ...source, useCustomUrl: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          Custom URL
+        </label>
+      </div>
+      {source.useCustomUrl ? (
+        <input
+          type="url"
+          value={source.customUrl}
+          onChange={(e) => onChange({ ...source, customUrl: e.target.value })}
+          placeholder="https://example.com/realms/myrealm"
+          className={inputClassName}
+        />
+      ) : (
+        <select
+          value={source.providerId}
+          onChange={(e) => onChange({ ...source, providerId: e.target.value })}
+          className={inputClassName}
+        >
+          {providers.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+function ValueCell({ value }: { value: string | boolean | null }) {
+  return value === null ? (
+    <span className="italic text-gray-400">absent</span>
+  ) : (
+    <span className="font-mono break-all">{String(value)}</span>
+  )
+}
+
+/**
+ * Loads two discovery documents and shows what differs between them
+ */
+export default function DiscoveryCompare({
+  providers,
+  defaultProvider,
+}: {
+  providers: PublicProviderConfig[]
+  defaultProvider: string
+}) {
+  const [left, setLeft] = useState<CompareSource>({
+    providerId: defaultProvider,
+    customUrl: '',
+    useCustomUrl: false,
+  })
+  const [right, setRight] = useState<CompareSource>({
+    providerId: providers.find((provider) => provider.id !== defaultProvider)?.id ?? defaultProvider,
+    customUrl: '',
+    useCustomUrl: false,
+  })
+  const [result, setResult] = useState<CompareResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const compare = async () => {
+    setLoading(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const [leftResult, rightResult] = await Promise.all([loadSource(left), loadSource(right)])
+      setResult({
+        left: { source: describeSource(left, providers), discoveryUrl: leftResult.discoveryUrl },
+        right: { source: describeSource(right, providers), discoveryUrl: rightResult.discoveryUrl },
+        diff: diffDiscoveryMetadata(leftResult.metadata!, rightResult.metadata!),
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare metadata')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const exportJson = () => {
+    if (!result) {
+      return
+    }
+    const blob = new Blob(
+      [JSON.stringify({ comparedAt: new Date().toISOString(), ...result }, null, 2)],
+      { type: 'application/json' }
+    )
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'discovery-diff.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const incomplete = (source: CompareSource) => source.useCustomUrl && !source.customUrl
+  const diff = result?.diff
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Compare Configurations</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Differences of the right configuration against the left one
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <SourcePicker label="Left" source={left} providers={providers} onChange={setLeft} />
+        <SourcePicker label="Right" source={right} providers={providers} onChange={setRight} />
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={compare}
+          disabled={loading || incomplete(left) || incomplete(right)}
+          className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+        >
+          {loading ? 'Comparing...' : 'Compare'}
+        </button>
+        {result && (
+          <button
+            onClick={exportJson}
+            className="px-6 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-lg transition-colors"
+          >
+            Export JSON
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {result && diff && (
+        <div className="mt-6 space-y-6">
+          <div
+            className={`p-4 rounded-lg text-sm ${
+              countBehavioralChanges(diff) === 0
+                ? 'bg-green-50 border border-green-200 text-green-700'
+                : 'bg-yellow-50 border border-yellow-200 text-yellow-700'
+            }`}
+          >
+            {diff.identical
+              ? 'Both documents are identical'
+              : countBehavioralChanges(diff) === 0
+                ? 'The configurations only differ by their issuer'
+                : `${countBehavioralChanges(diff)} difference(s) beyond the issuer`}
+            <div className="mt-2 grid md:grid-cols-2 gap-2 text-xs">
+              <div>
+                <span className="font-medium">{result.left.source}:</span> {diff.issuer.left}
+              </div>
+              <div>
+                <span className="font-medium">{result.right.source}:</span> {diff.issuer.right}
+              </div>
+            </div>
+          </div>
+
+          {diff.endpoints.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2">Endpoints</h3>
+              <div className="space-y-2">
+                {diff.endpoints.map((change) => (
+                  <div
+                    key={change.field}
+                    className={`p-3 rounded-lg text-sm ${
+                      change.sameRelativePath ? 'bg-gray-50' : 'bg-yellow-50 border border-yellow-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-mono font-medium text-gray-900">{change.field}</span>
+                      {change.sameRelativePath && (
+                        <span className="text-xs text-gray-500">same path below the issuer</span>
+                      )}
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-2 text-gray-700">
+                      <ValueCell value={change.left} />
+                      <ValueCell value={change.right} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {LIST_CATEGORIES.map((category) => {
+            const changes = diff.lists.filter((change) => change.category === category)
+            if (changes.length === 0) {
+              return null
+            }
+            return (
+              <div key={category}>
+                <h3 className="font-medium text-gray-900 mb-2 capitalize">
+                  {category === 'other' ? 'Other supported values' : category}
+                </h3>
+                <div className="space-y-2">
+                  {changes.map((change) => (
+                    <div key={change.field} className="p-3 bg-gray-50 rounded-lg text-sm">
+                      <span className="font-mono font-medium text-gray-900">{change.field}</span>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {change.added.map((item) => (
+                          <span key={`+${item}`} className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded">
+                            + {item}
+                          </span>
+                        ))}
+                        {change.removed.map((item) => (
+                          <span key={`-${item}`} className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded">
+                            − {item}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+
+          {(diff.flags.length > 0 || diff.other.length > 0) && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2">Capability Flags and Other Fields</h3>
+              <div className="space-y-2">
+                {[...diff.flags, ...diff.other].map((change) => (
+                  <div key={change.field} className="p-3 bg-gray-50 rounded-lg text-sm">
+                    <span className="font-mono font-medium text-gray-900">{change.field}</span>
+                    <div className="grid md:grid-cols-2 gap-2 mt-1 text-gray-700">
+                      <ValueCell value={change.left} />
+                      <ValueCell value={change.right} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
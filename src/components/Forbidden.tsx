@@ -0,0 +1,17 @@
+export default function Forbidden({ message }: { message?: string }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-900">
+      <div className="text-center">
+        <h1 className="text-6xl font-bold text-cyan-400 mb-4">403</h1>
+        <p className="text-xl text-gray-300 mb-2">Accès refusé</p>
+        {message && <p className="text-sm text-gray-400 mb-6">{message}</p>}
+        <a
+          href="/"
+          className="inline-block mt-4 px-6 py-3 bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg transition-colors"
+        >
+          Retour à l'accueil
+        </a>
+      </div>
+    </div>
+  )
+}
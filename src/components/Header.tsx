@@ -1,4 +1,4 @@
-import { Link } from '@tanstack/react-router'
+import { Link, useRouteContext } from '@tanstack/react-router'
 
 import { useState } from 'react'
 import {
@@ -8,15 +8,23 @@ import {
   Menu,
   Network,
   SquareFunction,
+  ShieldCheck,
   StickyNote,
+  UserRound,
   X,
 } from 'lucide-react'
+import { useHasRole } from '@/hooks/use-has-role'
 
 export default function Header() {
   const [isOpen, setIsOpen] = useState(false)
   const [groupedExpanded, setGroupedExpanded] = useState<
     Record<string, boolean>
   >({})
+  const user = useRouteContext({
+    from: '__root__',
+    select: (context) => context.session.user,
+  })
+  const isAdmin = useHasRole('admin')
 
   return (
     <>
@@ -37,6 +45,21 @@ export default function Header() {
             />
           </Link>
         </h1>
+        {user && (
+          <Link
+            to="/demo/start/auth"
+            className="ml-auto flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            <UserRound size={20} />
+            <span className="font-medium">{user.preferred_username ?? user.name}</span>
+            {isAdmin && (
+              <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-cyan-600 rounded">
+                <ShieldCheck size={14} />
+                Admin
+              </span>
+            )}
+          </Link>
+        )}
       </header>
 
       <aside
@@ -109,6 +132,21 @@ export default function Header() {
             <StickyNote size={20} />
             <span className="font-medium">Auth</span>
           </Link>
+
+          {isAdmin && (
+            <Link
+              to="/demo/start/auth/discovery"
+              onClick={() => setIsOpen(false)}
+              className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
+              activeProps={{
+                className:
+                  'flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2',
+              }}
+            >
+              <ShieldCheck size={20} />
+              <span className="font-medium">Auth - Discovery</span>
+            </Link>
+          )}
           
           <div className="flex flex-row justify-between">
             <Link
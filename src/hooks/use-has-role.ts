@@ -0,0 +1,13 @@
+import { useRouteContext } from '@tanstack/react-router'
+import { hasRole } from '@/lib/roles'
+
+/**
+ * Whether the signed-in user has the role (`role` or `clientId:role`).
+ * For conditional UI only: server functions enforce roles on their own.
+ */
+export function useHasRole(role: string): boolean {
+  return useRouteContext({
+    from: '__root__',
+    select: (context) => hasRole(context.session.user?.roles, role),
+  })
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef } from 'react'
+import { getSession } from '@/lib/session'
+import { getSessionMonitorConfig } from '@/lib/session-monitor'
+import { refreshSession } from '@/lib/token-refresh'
+
+// How often the OP iframe is asked about the session, and the server polled (ms)
+const CHECK_INTERVAL = 5 * 1000
+const POLL_INTERVAL = 30 * 1000
+
+/**
+ * Calls `onSignedOut` once the user's Keycloak session ends elsewhere
+ *
+ * Asks Keycloak's check_session_iframe every few seconds. A "changed" answer
+ * is confirmed with a token refresh, since browsers blocking third-party
+ * cookies make the iframe report "changed" for live sessions too. When the
+ * iframe is missing, errors or can't be trusted, polls the server session
+ * instead (which back-channel logout ends).
+ */
+export function useSessionMonitor(enabled: boolean, onSignedOut: () => void) {
+  const onSignedOutRef = useRef(onSignedOut)
+  onSignedOutRef.current = onSignedOut
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let stopped = false
+    let iframe: HTMLIFrameElement | null = null
+    let checkTimer: ReturnType<typeof setInterval> | undefined
+    let pollTimer: ReturnType<typeof setInterval> | undefined
+    let removeListener = () => {}
+
+    const signedOut = () => {
+      if (!stopped) {
+        stop()
+        onSignedOutRef.current()
+      }
+    }
+
+    const startPolling = () => {
+      clearInterval(checkTimer)
+      removeListener()
+      iframe?.remove()
+      iframe = null
+
+      pollTimer ??= setInterval(async () => {
+        const session = await getSession().catch(() => null)
+        if (session && !session.isAuthenticated) {
+          signedOut()
+        }
+      }, POLL_INTERVAL)
+    }
+
+    const stop = () => {
+      stopped = true
+      clearInterval(checkTimer)
+      clearInterval(pollTimer)
+      removeListener()
+      iframe?.remove()
+    }
+
+    const startIframe = (checkSessionIframe: string, message: string) => {
+      const origin = new URL(checkSessionIframe).origin
+      let checking = false
+
+      const onMessage = async (event: MessageEvent) => {
+        if (event.origin !== origin || event.source !== iframe?.contentWindow || checking) {
+          return
+        }
+
+        if (event.data === 'error') {
+          startPolling()
+        } else if (event.data === 'changed') {
+          checking = true
+          const session = await refreshSession().catch(() => null)
+          checking = false
+          if (session && !session.isAuthenticated) {
+            signedOut()
+          } else {
+            // Still signed in: the iframe can't see the SSO session
+            startPolling()
+          }
+        }
+      }
+
+      window.addEventListener('message', onMessage)
+      removeListener = () => window.removeEventListener('message', onMessage)
+
+      iframe = document.createElement('iframe')
+      iframe.src = checkSessionIframe
+      iframe.title = 'Keycloak session status'
+      iframe.style.display = 'none'
+      iframe.onload = () => {
+        checkTimer = setInterval(() => {
+          iframe?.contentWindow?.postMessage(message, origin)
+        }, CHECK_INTERVAL)
+      }
+      iframe.onerror = startPolling
+      document.body.appendChild(iframe)
+    }
+
+    getSessionMonitorConfig()
+      .then((config) => {
+        if (stopped) {
+          return
+        }
+        if (!config) {
+          signedOut()
+        } else if (config.checkSessionIframe && config.sessionState) {
+          startIframe(config.checkSessionIframe, `${config.clientId} ${config.sessionState}`)
+        } else {
+          startPolling()
+        }
+      })
+      .catch(startPolling)
+
+    return stop
+  }, [enabled])
+}
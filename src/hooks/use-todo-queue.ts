@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { useRouteContext, useRouter } from '@tanstack/react-router'
+import { applyMutation, getTodoQueue, type TodoMutation, type TodoQueueState } from '@/lib/todo-queue'
+import type { Todo } from '@/lib/todos'
+
+// Server rendering knows of no pending changes
+const SERVER_STATE: TodoQueueState = { pending: [], conflicts: [], offline: false }
+
+const getServerState = () => SERVER_STATE
+
+/**
+ * The todos of `list` with the user's pending changes applied, and `mutate`
+ * to make more
+ *
+ * `todos` is the list as the route loader got it. Each answer of the server
+ * replaces it until the loader runs again; a refused change reloads the route,
+ * since the list likely changed on the server.
+ */
+export function useTodoQueue(list: string, todos: Todo[]) {
+  const router = useRouter()
+  const user = useRouteContext({ from: '__root__', select: (context) => context.session.user?.sub ?? null })
+  const subscribe = useCallback((listener: () => void) => getTodoQueue(user, list).subscribe(listener), [user, list])
+  const getState = useCallback(() => getTodoQueue(user, list).getState(), [user, list])
+  const state = useSyncExternalStore(subscribe, getState, getServerState)
+  const [synced, setSynced] = useState({ loaded: todos, todos })
+  const base = synced.loaded === todos ? synced.todos : todos
+
+  useEffect(
+    () =>
+      getTodoQueue(user, list).onSettled((answer) => {
+        if (answer) {
+          setSynced({ loaded: todos, todos: answer })
+        } else {
+          router.invalidate()
+        }
+      }),
+    [user, list, todos, router]
+  )
+
+  // Changes left over from an earlier visit
+  useEffect(() => {
+    void getTodoQueue(user, list).flush()
+  }, [user, list])
+
+  return {
+    todos: useMemo(() => state.pending.reduce(applyMutation, base), [state.pending, base]),
+    pending: state.pending,
+    conflicts: state.conflicts,
+    offline: state.offline,
+    mutate: useCallback((mutation: TodoMutation) => getTodoQueue(user, list).enqueue(mutation), [user, list]),
+    dismissConflict: useCallback((key: string) => getTodoQueue(user, list).dismissConflict(key), [user, list]),
+  }
+}
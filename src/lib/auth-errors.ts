@@ -0,0 +1,33 @@
+/**
+ * Authentication errors thrown by server functions and route guards
+ *
+ * A serialization adapter in start.ts rebuilds them on the client with their
+ * status and code. The middleware in auth-guard.ts also sets the status on
+ * the response, which otherwise reports a failed server function as a 500.
+ */
+
+export type AuthErrorCode = 'unauthorized' | 'forbidden'
+
+export class AuthError extends Error {
+  readonly status: number
+  readonly code: AuthErrorCode
+
+  constructor(status: number, code: AuthErrorCode, message: string) {
+    super(message)
+    this.name = 'AuthError'
+    this.status = status
+    this.code = code
+  }
+}
+
+export function unauthorized(message = 'Authentication required'): AuthError {
+  return new AuthError(401, 'unauthorized', message)
+}
+
+export function forbidden(message = 'You do not have access to this resource'): AuthError {
+  return new AuthError(403, 'forbidden', message)
+}
+
+export function isAuthError(error: unknown): error is AuthError {
+  return error instanceof Error && error.name === 'AuthError' && 'status' in error
+}
@@ -0,0 +1,124 @@
+import { isRedirect, type ParsedLocation } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { clearCookies, getResponseStatus } from '@/test/react-start-server'
+import { installMockIdp, signIn } from '@/test/mock-idp'
+import { isAuthError } from './auth-errors'
+import { authMiddleware, optionalAuthMiddleware, requireAuth, requireRouteRoles, roleMiddleware } from './auth-guard'
+import { ANONYMOUS_SESSION, type SessionView } from './session'
+
+const location = { href: '/demo/start/admin?tab=users' } as ParsedLocation
+
+const whoAmI = createServerFn()
+  .middleware([authMiddleware])
+  .handler(({ context }) => context.session.data.user.preferred_username)
+
+const whoAmIMaybe = createServerFn()
+  .middleware([optionalAuthMiddleware])
+  .handler(({ context }) => context.session?.data.user.preferred_username ?? null)
+
+const adminOnly = createServerFn()
+  .middleware([roleMiddleware(['admin'])])
+  .handler(() => 'secret')
+
+const accountManagers = createServerFn()
+  .middleware([roleMiddleware(['account:manage-account'])])
+  .handler(() => 'account')
+
+function signedIn(realm: string[]): SessionView {
+  return { isAuthenticated: true, user: { sub: 'user', roles: { realm, clients: {} } }, expiresAt: null }
+}
+
+// What `call` threw
+async function caught(call: () => unknown): Promise<unknown> {
+  try {
+    await call()
+  } catch (error) {
+    return error
+  }
+  return expect.unreachable('nothing was thrown')
+}
+
+beforeAll(() => {
+  installMockIdp()
+})
+
+beforeEach(() => {
+  clearCookies()
+})
+
+describe('route guards', () => {
+  it('sends anonymous users to the login page, to come back where they were going', async () => {
+    const redirect = await caught(() => requireAuth({ context: { session: ANONYMOUS_SESSION }, location }))
+
+    expect(isRedirect(redirect) && redirect.options).toMatchObject({
+      to: '/demo/start/auth',
+      search: { redirect: location.href },
+    })
+  })
+
+  it('hands the user of a signed-in session on to the route', () => {
+    expect(requireAuth({ context: { session: signedIn(['user']) }, location }).user.sub).toBe('user')
+  })
+
+  it('checks the roles every matched route declares', () => {
+    const matches = [{ staticData: { roles: ['user'] } }, {}, { staticData: { roles: ['admin'] } }]
+
+    expect(() => requireRouteRoles({ session: signedIn(['user', 'admin']), matches, location })).not.toThrow()
+    expect(() => requireRouteRoles({ session: signedIn(['user']), matches, location })).toThrow(
+      'Missing role(s): admin'
+    )
+    expect(() => requireRouteRoles({ session: ANONYMOUS_SESSION, matches: [{}], location })).not.toThrow()
+  })
+})
+
+describe('server function middleware', () => {
+  it('refuses anonymous calls with a 401', async () => {
+    const error = await caught(whoAmI)
+
+    expect(isAuthError(error) && error.code).toBe('unauthorized')
+    expect(getResponseStatus()).toBe(401)
+  })
+
+  it('gives the handler the session of a signed-in user', async () => {
+    await signIn('bob')
+
+    expect(await whoAmI()).toBe('bob')
+    expect(getResponseStatus()).toBe(200)
+  })
+
+  it('lets anonymous users through where the session is optional', async () => {
+    expect(await whoAmIMaybe()).toBeNull()
+
+    await signIn('bob')
+    expect(await whoAmIMaybe()).toBe('bob')
+  })
+
+  it('refuses users without a required realm role with a 403', async () => {
+    await signIn('bob')
+    const error = await caught(adminOnly)
+
+    expect(isAuthError(error) && error.code).toBe('forbidden')
+    expect(error).toHaveProperty('message', 'Missing role(s): admin')
+    expect(getResponseStatus()).toBe(403)
+
+    await signIn('alice')
+    expect(await adminOnly()).toBe('secret')
+  })
+
+  it('checks client roles under their client', async () => {
+    await signIn('bob')
+    await caught(accountManagers)
+    expect(getResponseStatus()).toBe(403)
+
+    await signIn('alice')
+    expect(await accountManagers()).toBe('account')
+  })
+
+  it('asks anonymous callers to sign in before checking roles', async () => {
+    const error = await caught(adminOnly)
+
+    expect(isAuthError(error) && error.status).toBe(401)
+    expect(getResponseStatus()).toBe(401)
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Authentication guards
+ * `requireAuth` and `requireRouteRoles` protect routes from `beforeLoad`,
+ * `authMiddleware` and `roleMiddleware` protect server functions. They rely
+ * on the session placed in the router context or read from the session cookie.
+ */
+
+import { redirect, type ParsedLocation } from '@tanstack/react-router'
+import { createMiddleware } from '@tanstack/react-start'
+import { setResponseStatus } from '@tanstack/react-start/server'
+import { forbidden, unauthorized, type AuthError } from './auth-errors'
+import { missingRoles } from './roles'
+import { getValidSession } from './token-refresh'
+import type { SessionView } from './session'
+
+export const LOGIN_PATH = '/demo/start/auth'
+
+/**
+ * Route `beforeLoad` guard redirecting anonymous users to the login page,
+ * with a `redirect` search param pointing back to where they were going
+ */
+export function requireAuth({
+  context,
+  location,
+}: {
+  context: { session: SessionView }
+  location: ParsedLocation
+}) {
+  if (!context.session.isAuthenticated) {
+    throw redirect({
+      to: LOGIN_PATH,
+      search: { redirect: location.href },
+    })
+  }
+
+  return { user: context.session.user! }
+}
+
+/**
+ * Enforces the `staticData.roles` declared by the matched routes: anonymous
+ * users go to the login page, signed-in users without the roles get a 403
+ */
+export function requireRouteRoles({
+  session,
+  matches,
+  location,
+}: {
+  session: SessionView
+  matches: Array<{ staticData?: { roles?: string[] } }>
+  location: ParsedLocation
+}) {
+  const required = [...new Set(matches.flatMap((match) => match.staticData?.roles ?? []))]
+  if (required.length === 0) {
+    return
+  }
+
+  requireAuth({ context: { session }, location })
+
+  const missing = missingRoles(session.user?.roles, required)
+  if (missing.length > 0) {
+    throw forbidden(`Missing role(s): ${missing.join(', ')}`)
+  }
+}
+
+// Server functions answer 500 for whatever they throw unless told otherwise
+function rejectCall(error: AuthError): never {
+  setResponseStatus(error.status)
+  throw error
+}
+
+/**
+ * Server function middleware rejecting calls without a valid session (401)
+ * and exposing the refreshed session as `context.session`
+ */
+export const authMiddleware = createMiddleware({ type: 'function' }).server(async ({ next }) => {
+  const session = await getValidSession()
+  if (!session) {
+    rejectCall(unauthorized())
+  }
+
+  return next({ context: { session } })
+})
+
+/**
+ * Server function middleware for functions anonymous users may call too,
+ * exposing the refreshed session or null as `context.session`
+ */
+export const optionalAuthMiddleware = createMiddleware({ type: 'function' }).server(async ({ next }) => {
+  return next({ context: { session: await getValidSession() } })
+})
+
+/**
+ * Server function middleware rejecting calls from users missing any of the
+ * given roles (403), on top of `authMiddleware`
+ */
+export function roleMiddleware(roles: string[]) {
+  return createMiddleware({ type: 'function' })
+    .middleware([authMiddleware])
+    .server(async ({ next, context }) => {
+      const missing = missingRoles(context.session.data.user.roles, roles)
+      if (missing.length > 0) {
+        rejectCall(forbidden(`Missing role(s): ${missing.join(', ')}`))
+      }
+
+      return next()
+    })
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { checkComplianceProfile, isComplianceProfileId } from './compliance-profiles'
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+const ISSUER = 'https://sso.example.com/realms/demo'
+
+const metadata: OidcDiscoveryMetadata = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/protocol/openid-connect/auth`,
+  token_endpoint: `${ISSUER}/protocol/openid-connect/token`,
+  jwks_uri: `${ISSUER}/protocol/openid-connect/certs`,
+  end_session_endpoint: `${ISSUER}/protocol/openid-connect/logout`,
+  revocation_endpoint: `${ISSUER}/protocol/openid-connect/revoke`,
+  introspection_endpoint: `${ISSUER}/protocol/openid-connect/token/introspect`,
+  response_types_supported: ['code'],
+  subject_types_supported: ['public'],
+  id_token_signing_alg_values_supported: ['RS256'],
+  grant_types_supported: ['authorization_code', 'refresh_token'],
+  code_challenge_methods_supported: ['S256'],
+  scopes_supported: ['openid', 'profile', 'email'],
+}
+
+describe('compliance profiles', () => {
+  it('takes only the ids of profiles, not what every object has', () => {
+    expect(isComplianceProfileId('spa-pkce')).toBe(true)
+    expect(isComplianceProfileId('toString')).toBe(false)
+    expect(isComplianceProfileId('__proto__')).toBe(false)
+  })
+
+  it('passes a provider with everything the profile asks for', () => {
+    const report = checkComplianceProfile(metadata, 'login-demo')
+
+    expect(report.compliant).toBe(true)
+    expect(report.findings.filter((finding) => finding.severity !== 'info')).toEqual([])
+  })
+
+  it('fails a provider missing a required capability', () => {
+    const report = checkComplianceProfile({ ...metadata, code_challenge_methods_supported: ['plain'] }, 'login-demo')
+
+    expect(report.compliant).toBe(false)
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ field: 'code_challenge_methods_supported', severity: 'error' })
+    )
+  })
+})
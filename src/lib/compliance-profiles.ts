@@ -0,0 +1,196 @@
+/**
+ * Compliance profiles
+ * Named sets of capability requirements a provider is checked against on the
+ * discovery page. Each profile runs its checks through
+ * validateMetadataCapabilities with the severity of the check.
+ */
+
+import {
+  validateMetadataCapabilities,
+  type CapabilityFinding,
+  type CapabilityRequirements,
+  type CapabilitySeverity,
+} from './keycloak-discovery'
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+export type ComplianceProfileId = 'login-demo' | 'spa-pkce' | 'confidential-server' | 'fapi2-baseline'
+
+export interface ComplianceProfile {
+  id: ComplianceProfileId
+  label: string
+  description: string
+  checks: Array<{ severity: CapabilitySeverity; requirements: CapabilityRequirements }>
+}
+
+export interface ComplianceReport {
+  profile: ComplianceProfile
+  // False when any error-level finding was reported
+  compliant: boolean
+  findings: CapabilityFinding[]
+}
+
+// Implicit and hybrid flows, which return tokens from the authorization endpoint
+const FRONT_CHANNEL_TOKEN_RESPONSE_TYPES = [
+  'token',
+  'id_token',
+  'id_token token',
+  'code token',
+  'code id_token',
+  'code id_token token',
+]
+
+export const COMPLIANCE_PROFILES: Record<ComplianceProfileId, ComplianceProfile> = {
+  'login-demo': {
+    id: 'login-demo',
+    label: 'Login demo (this app)',
+    description: 'What the sign-in, refresh and logout flows of this app rely on',
+    checks: [
+      {
+        severity: 'error',
+        requirements: {
+          grantTypes: ['authorization_code', 'refresh_token'],
+          responseTypes: ['code'],
+          codeChallengeMethods: ['S256'],
+          scopes: ['openid', 'profile', 'email'],
+        },
+      },
+      {
+        severity: 'warning',
+        requirements: {
+          endpoints: ['end_session_endpoint', 'revocation_endpoint', 'introspection_endpoint'],
+        },
+      },
+      {
+        severity: 'info',
+        requirements: {
+          grantTypes: ['urn:ietf:params:oauth:grant-type:device_code'],
+          endpoints: ['pushed_authorization_request_endpoint', 'check_session_iframe'],
+          flags: ['backchannel_logout_supported'],
+        },
+      },
+    ],
+  },
+  'spa-pkce': {
+    id: 'spa-pkce',
+    label: 'SPA with PKCE',
+    description: 'Public browser client using the authorization code flow with PKCE',
+    checks: [
+      {
+        severity: 'error',
+        requirements: {
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          codeChallengeMethods: ['S256'],
+          scopes: ['openid'],
+        },
+      },
+      {
+        severity: 'warning',
+        requirements: {
+          grantTypes: ['refresh_token'],
+          // Public clients do not authenticate at the token endpoint
+          tokenEndpointAuthMethods: ['none'],
+          forbiddenGrantTypes: ['implicit', 'password'],
+        },
+      },
+      {
+        severity: 'info',
+        requirements: {
+          forbiddenResponseTypes: FRONT_CHANNEL_TOKEN_RESPONSE_TYPES,
+          endpoints: ['end_session_endpoint'],
+        },
+      },
+    ],
+  },
+  'confidential-server': {
+    id: 'confidential-server',
+    label: 'Confidential server app',
+    description: 'Server-side client authenticating at the token endpoint',
+    checks: [
+      {
+        severity: 'error',
+        requirements: {
+          grantTypes: ['authorization_code', 'refresh_token'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          tokenEndpointAuthMethods: ['client_secret_basic', 'client_secret_post', 'private_key_jwt'],
+          endpoints: ['userinfo_endpoint'],
+        },
+      },
+      {
+        severity: 'warning',
+        requirements: {
+          codeChallengeMethods: ['S256'],
+          endpoints: ['revocation_endpoint', 'introspection_endpoint', 'end_session_endpoint'],
+          forbiddenGrantTypes: ['implicit', 'password'],
+        },
+      },
+      {
+        severity: 'info',
+        requirements: {
+          tokenEndpointAuthMethods: ['private_key_jwt', 'tls_client_auth'],
+          flags: ['backchannel_logout_supported'],
+        },
+      },
+    ],
+  },
+  'fapi2-baseline': {
+    id: 'fapi2-baseline',
+    label: 'FAPI 2.0 baseline',
+    description: 'FAPI 2.0 Security Profile: PAR, PKCE, strong client authentication and sender-constrained tokens',
+    checks: [
+      {
+        severity: 'error',
+        requirements: {
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          codeChallengeMethods: ['S256'],
+          endpoints: ['pushed_authorization_request_endpoint'],
+          tokenEndpointAuthMethods: ['private_key_jwt', 'tls_client_auth', 'self_signed_tls_client_auth'],
+          signingAlgorithms: ['PS256', 'ES256', 'EdDSA'],
+          flags: ['authorization_response_iss_parameter_supported'],
+        },
+      },
+      {
+        severity: 'warning',
+        requirements: {
+          flags: ['require_pushed_authorization_requests', 'tls_client_certificate_bound_access_tokens'],
+          forbiddenGrantTypes: ['implicit', 'password'],
+          forbiddenResponseTypes: FRONT_CHANNEL_TOKEN_RESPONSE_TYPES,
+        },
+      },
+      {
+        severity: 'info',
+        requirements: {
+          // Allowed by the provider, but FAPI clients must not pick them
+          forbiddenSigningAlgorithms: ['none', 'HS256', 'RS256'],
+        },
+      },
+    ],
+  },
+}
+
+export const DEFAULT_COMPLIANCE_PROFILE: ComplianceProfileId = 'login-demo'
+
+export function isComplianceProfileId(value: unknown): value is ComplianceProfileId {
+  return typeof value === 'string' && Object.hasOwn(COMPLIANCE_PROFILES, value)
+}
+
+/**
+ * Checks discovery metadata against every requirement of a profile
+ */
+export function checkComplianceProfile(
+  metadata: OidcDiscoveryMetadata,
+  profileId: ComplianceProfileId
+): ComplianceReport {
+  const profile = COMPLIANCE_PROFILES[profileId]
+  const findings = profile.checks.flatMap(
+    ({ severity, requirements }) => validateMetadataCapabilities(metadata, requirements, severity).findings
+  )
+
+  return {
+    profile,
+    compliant: !findings.some((finding) => finding.severity === 'error'),
+    findings,
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Server-side OpenID Connect discovery client
+ * Caches discovery metadata per issuer and is the single place auth flows
+ * resolve their endpoints from.
+ *
+ * Entries live for DISCOVERY_CACHE_TTL seconds (default 300) unless the
+ * provider sends `Cache-Control: max-age`. Expired entries are served stale
+ * while a conditional request (`If-None-Match`) revalidates them.
+ *
+ * Documents are validated on every fetch (see discovery-validation.ts). An
+ * invalid one is cached like a valid one, but auth flows refuse to use it.
+ */
+
+import { createServerOnlyFn } from '@tanstack/react-start'
+import {
+  discoveryUrlFromIssuer,
+  issuerFromDiscoveryUrl,
+  type OidcDiscoveryMetadata,
+} from './oidc-discovery'
+import { buildProviderDiscoveryUrl, type ProviderLocation } from './provider-adapters'
+import {
+  formatDiscoveryIssues,
+  parseDiscoveryMetadata,
+  type DiscoveryIssue,
+} from './discovery-validation'
+
+const DEFAULT_TTL = 5 * 60
+
+interface CacheEntry {
+  // Null when the document failed validation
+  metadata: OidcDiscoveryMetadata | null
+  issues: DiscoveryIssue[]
+  etag: string | null
+  fetchedAt: number
+  expiresAt: number
+  revalidation: Promise<CacheEntry> | null
+}
+
+export interface DiscoveryCacheInfo {
+  fetchedAt: number
+  expiresAt: number
+  stale: boolean
+}
+
+type Fetch = (url: string, init: RequestInit) => Promise<Response>
+
+const cache = new Map<string, CacheEntry>()
+const pendingFetches = new Map<string, Promise<CacheEntry>>()
+
+function getDefaultTtl(): number {
+  const ttl = Number(process.env.DISCOVERY_CACHE_TTL)
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL
+}
+
+/**
+ * Lifetime in seconds allowed by the response's Cache-Control header
+ */
+function getResponseTtl(response: Response): number {
+  const cacheControl = response.headers.get('Cache-Control') ?? ''
+  if (/\b(no-store|no-cache)\b/.test(cacheControl)) {
+    return 0
+  }
+
+  const maxAge = /\bmax-age=(\d+)/.exec(cacheControl)
+  return maxAge ? Number(maxAge[1]) : getDefaultTtl()
+}
+
+async function fetchEntry(
+  discoveryUrl: string,
+  previous?: CacheEntry,
+  init: RequestInit = {},
+  fetchDocument: Fetch = fetch
+): Promise<CacheEntry> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+  }
+  if (previous?.etag) {
+    headers['If-None-Match'] = previous.etag
+  }
+
+  const response = await fetchDocument(discoveryUrl, { ...init, method: 'GET', headers })
+  const now = Date.now()
+
+  if (response.status === 304 && previous) {
+    return {
+      ...previous,
+      fetchedAt: now,
+      expiresAt: now + getResponseTtl(response) * 1000,
+      revalidation: null,
+    }
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch discovery metadata: ${response.status} ${response.statusText}`
+    )
+  }
+
+  const document = await response.json().catch(() => null)
+  const { metadata, issues } = parseDiscoveryMetadata(document, {
+    // Discovery 1.0 §4.3: the issuer is the URL the document was fetched from
+    expectedIssuer: issuerFromDiscoveryUrl(discoveryUrl),
+  })
+
+  return {
+    metadata,
+    issues,
+    etag: response.headers.get('ETag'),
+    fetchedAt: now,
+    expiresAt: now + getResponseTtl(response) * 1000,
+    revalidation: null,
+  }
+}
+
+function revalidate(discoveryUrl: string, entry: CacheEntry): Promise<CacheEntry> {
+  entry.revalidation ??= fetchEntry(discoveryUrl, entry)
+    .then((fresh) => {
+      cache.set(discoveryUrl, fresh)
+      return fresh
+    })
+    .catch(() => {
+      // Keep serving the stale document, the next request retries
+      entry.revalidation = null
+      return entry
+    })
+
+  return entry.revalidation
+}
+
+async function loadEntry(discoveryUrl: string): Promise<CacheEntry> {
+  const cached = cache.get(discoveryUrl)
+  if (cached) {
+    if (cached.expiresAt <= Date.now()) {
+      void revalidate(discoveryUrl, cached)
+    }
+    return cached
+  }
+
+  // First load: concurrent callers share one request
+  let pending = pendingFetches.get(discoveryUrl)
+  if (!pending) {
+    pending = fetchEntry(discoveryUrl)
+      .then((entry) => {
+        cache.set(discoveryUrl, entry)
+        return entry
+      })
+      .finally(() => pendingFetches.delete(discoveryUrl))
+    pendingFetches.set(discoveryUrl, pending)
+  }
+
+  return pending
+}
+
+function toDiscoveryUrl(source: ProviderLocation | string): string {
+  return typeof source === 'string' ? discoveryUrlFromIssuer(source) : buildProviderDiscoveryUrl(source)
+}
+
+/**
+ * Discovery metadata for a provider, issuer or discovery URL, from cache when possible
+ */
+export const getDiscoveryMetadata = createServerOnlyFn(
+  async (source: ProviderLocation | string): Promise<OidcDiscoveryMetadata> => {
+    const { metadata, issues } = await loadEntry(toDiscoveryUrl(source))
+    if (!metadata) {
+      throw new Error(`Invalid discovery document: ${formatDiscoveryIssues(issues)}`)
+    }
+    return metadata
+  }
+)
+
+/**
+ * Drops cached metadata for one source, or everything
+ */
+export const invalidateDiscoveryCache = createServerOnlyFn((source?: ProviderLocation | string) => {
+  if (source === undefined) {
+    cache.clear()
+  } else {
+    cache.delete(toDiscoveryUrl(source))
+  }
+})
+
+/**
+ * The document at `discoveryUrl` with its validation issues and cache state,
+ * for showing it as it is rather than using it
+ *
+ * `cached: false` is for URLs typed in by users: the document is fetched
+ * with `options.fetch` (by default the global one) without touching the
+ * cache, and a redirect fails the fetch.
+ */
+export const inspectDiscoveryDocument = createServerOnlyFn(
+  async (
+    discoveryUrl: string,
+    options: { cached: boolean; fetch?: Fetch }
+  ): Promise<{ metadata: OidcDiscoveryMetadata | null; issues: DiscoveryIssue[]; cache: DiscoveryCacheInfo }> => {
+    const entry = options.cached
+      ? await loadEntry(discoveryUrl)
+      : await fetchEntry(discoveryUrl, undefined, { redirect: 'error' }, options.fetch)
+
+    return {
+      metadata: entry.metadata,
+      issues: entry.issues,
+      cache: {
+        fetchedAt: entry.fetchedAt,
+        expiresAt: entry.expiresAt,
+        stale: entry.expiresAt <= Date.now(),
+      },
+    }
+  }
+)
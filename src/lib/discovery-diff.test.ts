@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { countBehavioralChanges, diffDiscoveryMetadata } from './discovery-diff'
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+function realm(issuer: string, changes: Partial<OidcDiscoveryMetadata> = {}): OidcDiscoveryMetadata {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+    token_endpoint: `${issuer}/protocol/openid-connect/token`,
+    jwks_uri: `${issuer}/protocol/openid-connect/certs`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256', 'ES256'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    scopes_supported: ['openid', 'profile'],
+    backchannel_logout_supported: true,
+    ...changes,
+  }
+}
+
+const STAGING = 'https://sso.example.com/realms/staging'
+const PRODUCTION = 'https://sso.example.com/realms/production'
+
+describe('discovery diff', () => {
+  it('finds nothing between a document and itself', () => {
+    const diff = diffDiscoveryMetadata(realm(STAGING), realm(STAGING))
+
+    expect(diff.identical).toBe(true)
+    expect(countBehavioralChanges(diff)).toBe(0)
+  })
+
+  it('tells endpoints that only moved with the issuer from ones that changed', () => {
+    const diff = diffDiscoveryMetadata(
+      realm(STAGING),
+      realm(PRODUCTION, { token_endpoint: 'https://tokens.example.com/token' })
+    )
+
+    expect(diff.identical).toBe(false)
+    expect(diff.issuer).toEqual({ left: STAGING, right: PRODUCTION })
+    expect(diff.endpoints).toEqual([
+      {
+        field: 'authorization_endpoint',
+        left: `${STAGING}/protocol/openid-connect/auth`,
+        right: `${PRODUCTION}/protocol/openid-connect/auth`,
+        sameRelativePath: true,
+      },
+      { field: 'jwks_uri', left: expect.any(String), right: expect.any(String), sameRelativePath: true },
+      {
+        field: 'token_endpoint',
+        left: `${STAGING}/protocol/openid-connect/token`,
+        right: 'https://tokens.example.com/token',
+        sameRelativePath: false,
+      },
+    ])
+    expect(countBehavioralChanges(diff)).toBe(1)
+  })
+
+  it('lists what the right side adds to and removes from lists, by category', () => {
+    const diff = diffDiscoveryMetadata(
+      realm(STAGING),
+      realm(STAGING, {
+        id_token_signing_alg_values_supported: ['RS256', 'PS256'],
+        grant_types_supported: undefined,
+        claims_supported: ['sub'],
+      })
+    )
+
+    expect(diff.lists).toEqual([
+      { field: 'claims_supported', category: 'other', added: ['sub'], removed: [] },
+      {
+        field: 'grant_types_supported',
+        category: 'grant types',
+        added: [],
+        removed: ['authorization_code', 'refresh_token'],
+      },
+      { field: 'id_token_signing_alg_values_supported', category: 'algorithms', added: ['PS256'], removed: ['ES256'] },
+    ])
+  })
+
+  it('compares flags, and fields of other shapes as JSON', () => {
+    const diff = diffDiscoveryMetadata(
+      realm(STAGING, { mtls_endpoint_aliases: { token_endpoint: `${STAGING}/mtls/token` } }),
+      realm(STAGING, { backchannel_logout_supported: false, require_pushed_authorization_requests: true })
+    )
+
+    expect(diff.flags).toEqual([
+      { field: 'backchannel_logout_supported', left: true, right: false },
+      { field: 'require_pushed_authorization_requests', left: null, right: true },
+    ])
+    expect(diff.other).toEqual([
+      {
+        field: 'mtls_endpoint_aliases',
+        left: JSON.stringify({ token_endpoint: `${STAGING}/mtls/token` }),
+        right: null,
+      },
+    ])
+    expect(countBehavioralChanges(diff)).toBe(3)
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Discovery metadata diff
+ * Structured comparison of two discovery documents, e.g. the same app in two
+ * realms or two environments. Right is compared against left: "added" values
+ * are only advertised by right, "removed" ones only by left.
+ *
+ * Endpoints of two realms always differ by their issuer prefix, so each
+ * endpoint change records whether the path below the issuer is the same.
+ */
+
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+export type DiscoveryListCategory = 'grant types' | 'scopes' | 'algorithms' | 'other'
+
+export interface DiscoveryEndpointChange {
+  field: string
+  left: string | null
+  right: string | null
+  // Same URL once each document's issuer is stripped
+  sameRelativePath: boolean
+}
+
+export interface DiscoveryListChange {
+  field: string
+  category: DiscoveryListCategory
+  added: string[]
+  removed: string[]
+}
+
+export interface DiscoveryFlagChange {
+  field: string
+  left: boolean | null
+  right: boolean | null
+}
+
+export interface DiscoveryValueChange {
+  field: string
+  left: string | null
+  right: string | null
+}
+
+export interface DiscoveryDiff {
+  issuer: { left: string; right: string }
+  endpoints: DiscoveryEndpointChange[]
+  lists: DiscoveryListChange[]
+  flags: DiscoveryFlagChange[]
+  // Fields of any other shape (mtls_endpoint_aliases, vendor extensions), as JSON
+  other: DiscoveryValueChange[]
+  identical: boolean
+}
+
+function isEndpointField(field: string): boolean {
+  return field.endsWith('_endpoint') || field === 'jwks_uri' || field === 'check_session_iframe'
+}
+
+function listCategory(field: string): DiscoveryListCategory {
+  if (field === 'grant_types_supported') {
+    return 'grant types'
+  }
+  if (field === 'scopes_supported') {
+    return 'scopes'
+  }
+  if (/_(alg|enc)_values_supported$/.test(field)) {
+    return 'algorithms'
+  }
+  return 'other'
+}
+
+function relativeTo(url: string | null, issuer: string): string | null {
+  const prefix = issuer.replace(/\/$/, '')
+  return url && url.startsWith(prefix) ? url.slice(prefix.length) : url
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : []
+}
+
+/**
+ * Compares two discovery documents field by field
+ *
+ * Fields are classified by their value: endpoint URLs, string lists, boolean
+ * capability flags, and everything else compared as JSON. A field missing
+ * from one side counts as a change (an empty list for lists).
+ */
+export function diffDiscoveryMetadata(
+  left: OidcDiscoveryMetadata,
+  right: OidcDiscoveryMetadata
+): DiscoveryDiff {
+  const leftFields = left as unknown as Record<string, unknown>
+  const rightFields = right as unknown as Record<string, unknown>
+  const fields = [...new Set([...Object.keys(leftFields), ...Object.keys(rightFields)])]
+    .filter((field) => field !== 'issuer')
+    .sort()
+
+  const diff: DiscoveryDiff = {
+    issuer: { left: left.issuer, right: right.issuer },
+    endpoints: [],
+    lists: [],
+    flags: [],
+    other: [],
+    identical: false,
+  }
+
+  for (const field of fields) {
+    const leftValue = leftFields[field]
+    const rightValue = rightFields[field]
+    const sample = leftValue ?? rightValue
+
+    if (Array.isArray(sample)) {
+      const leftItems = toStrings(leftValue)
+      const rightItems = toStrings(rightValue)
+      const added = rightItems.filter((item) => !leftItems.includes(item))
+      const removed = leftItems.filter((item) => !rightItems.includes(item))
+      if (added.length > 0 || removed.length > 0) {
+        diff.lists.push({ field, category: listCategory(field), added, removed })
+      }
+    } else if (typeof sample === 'boolean') {
+      if (leftValue !== rightValue) {
+        diff.flags.push({
+          field,
+          left: typeof leftValue === 'boolean' ? leftValue : null,
+          right: typeof rightValue === 'boolean' ? rightValue : null,
+        })
+      }
+    } else if (typeof sample === 'string' && isEndpointField(field)) {
+      const leftUrl = typeof leftValue === 'string' ? leftValue : null
+      const rightUrl = typeof rightValue === 'string' ? rightValue : null
+      if (leftUrl !== rightUrl) {
+        diff.endpoints.push({
+          field,
+          left: leftUrl,
+          right: rightUrl,
+          sameRelativePath:
+            leftUrl !== null &&
+            rightUrl !== null &&
+            relativeTo(leftUrl, left.issuer) === relativeTo(rightUrl, right.issuer),
+        })
+      }
+    } else {
+      const leftJson = leftValue === undefined ? null : JSON.stringify(leftValue)
+      const rightJson = rightValue === undefined ? null : JSON.stringify(rightValue)
+      if (leftJson !== rightJson) {
+        diff.other.push({ field, left: leftJson, right: rightJson })
+      }
+    }
+  }
+
+  diff.identical =
+    left.issuer === right.issuer &&
+    diff.endpoints.length === 0 &&
+    diff.lists.length === 0 &&
+    diff.flags.length === 0 &&
+    diff.other.length === 0
+
+  return diff
+}
+
+/**
+ * Differences that remain once the issuer prefix is ignored, i.e. the ones
+ * that make the two configurations behave differently
+ */
+export function countBehavioralChanges(diff: DiscoveryDiff): number {
+  return (
+    diff.endpoints.filter((change) => !change.sameRelativePath).length +
+    diff.lists.length +
+    diff.flags.length +
+    diff.other.length
+  )
+}
@@ -0,0 +1,145 @@
+import dns from 'node:dns'
+import http from 'node:http'
+import net, { type AddressInfo } from 'node:net'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { installMockIdp, signIn } from '@/test/mock-idp'
+import { loadDiscoveryMetadata } from './discovery-inspector'
+
+// What the test's public host resolves to
+const PUBLIC_ADDRESS = '198.51.100.7'
+
+let publicServer: http.Server
+let privateServer: http.Server
+let privateRequests: number
+// Addresses requests connected to, in order
+let connections: string[]
+
+async function listen(handle: http.RequestListener): Promise<http.Server> {
+  const server = http.createServer(handle)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return server
+}
+
+function portOf(server: http.Server): number {
+  return (server.address() as AddressInfo).port
+}
+
+function issuerUrl(host: string): string {
+  return `http://${host}:${portOf(publicServer)}/realms/test`
+}
+
+// Answers lookups with `answers` in turn, the last one from then on
+function resolveTo(...answers: string[]) {
+  return vi.spyOn(dns, 'lookup').mockImplementation(((
+    _hostname: string,
+    _options: dns.LookupAllOptions,
+    callback: (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => void
+  ) => {
+    const address = answers.length > 1 ? answers.shift()! : answers[0]
+    callback(null, [{ address, family: net.isIP(address) }])
+  }) as unknown as typeof dns.lookup)
+}
+
+beforeAll(async () => {
+  installMockIdp()
+
+  publicServer = await listen((request, response) => {
+    const issuer = `http://${request.headers.host}/realms/test`
+    response.setHeader('Content-Type', 'application/json')
+    response.end(
+      JSON.stringify({
+        issuer,
+        authorization_endpoint: `${issuer}/auth`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/certs`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+      })
+    )
+  })
+  privateServer = await listen((_request, response) => {
+    privateRequests++
+    response.end('{}')
+  })
+})
+
+afterAll(async () => {
+  await Promise.all([publicServer, privateServer].map((server) => new Promise((resolve) => server.close(resolve))))
+})
+
+beforeEach(async () => {
+  clearCookies()
+  privateRequests = 0
+  connections = []
+
+  // Stands in for the network: a connection goes to the address the request's
+  // own lookup gives, PUBLIC_ADDRESS being the public server
+  vi.spyOn(http.Agent.prototype, 'createConnection').mockImplementation((options, callback) => {
+    const lookup = options.lookup as net.LookupFunction
+    lookup(options.host!, { all: true }, (error, addresses) => {
+      if (error) {
+        callback!(error, new net.Socket())
+        return
+      }
+      const [{ address }] = addresses as dns.LookupAddress[]
+      connections.push(address)
+      const server = address === PUBLIC_ADDRESS ? publicServer : privateServer
+      callback!(null, net.createConnection(portOf(server), '127.0.0.1'))
+    })
+    return undefined
+  })
+
+  await signIn('alice')
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('discovery URLs typed in by users', () => {
+  it('loads the document of a public host', async () => {
+    resolveTo(PUBLIC_ADDRESS)
+    const result = await loadDiscoveryMetadata({ data: { url: issuerUrl('idp.example.com') } })
+
+    expect(result.metadata?.issuer).toBe(issuerUrl('idp.example.com'))
+    expect(connections).toEqual([PUBLIC_ADDRESS])
+  })
+
+  it('refuses hosts that resolve to a private address', async () => {
+    resolveTo('127.0.0.1')
+
+    await expect(loadDiscoveryMetadata({ data: { url: issuerUrl('idp.example.com') } })).rejects.toThrow(
+      'idp.example.com is not a public address'
+    )
+    expect(connections).toEqual([])
+    expect(privateRequests).toBe(0)
+  })
+
+  it('refuses private IP addresses', async () => {
+    for (const host of ['127.0.0.1', '[::1]', '169.254.169.254', '[::ffff:10.0.0.1]']) {
+      await expect(loadDiscoveryMetadata({ data: { url: issuerUrl(host) } })).rejects.toThrow(
+        'is not a public address'
+      )
+    }
+    expect(connections).toEqual([])
+  })
+
+  it('connects to the address it checked when DNS answers differently the next time', async () => {
+    const lookup = resolveTo(PUBLIC_ADDRESS, '127.0.0.1')
+    const result = await loadDiscoveryMetadata({ data: { url: issuerUrl('rebind.example.com') } })
+
+    expect(result.metadata?.issuer).toBe(issuerUrl('rebind.example.com'))
+    expect(lookup).toHaveBeenCalledOnce()
+    expect(connections).toEqual([PUBLIC_ADDRESS])
+    expect(privateRequests).toBe(0)
+  })
+
+  it('is for administrators only', async () => {
+    await signIn('bob')
+    await expect(loadDiscoveryMetadata({ data: { url: issuerUrl('idp.example.com') } })).rejects.toThrow(
+      'Missing role(s): admin'
+    )
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Discovery document inspection
+ * The discovery page's server function, for administrators to look at the
+ * metadata of a configured provider or of any issuer URL, issues included
+ *
+ * URLs typed into the page are fetched without caching, and only from public
+ * addresses: the server must not become a way into the private network it
+ * runs in. The address is checked as the connection is made, so a DNS answer
+ * that changes between a check and the request (DNS rebinding) can't get past.
+ */
+
+import dns from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import net from 'node:net'
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { roleMiddleware } from './auth-guard'
+import { inspectDiscoveryDocument } from './discovery-client'
+import { getProvider } from './idp-registry'
+import { optionalText, validateInput } from './input-validation'
+import { discoveryUrlFromIssuer } from './oidc-discovery'
+import { buildProviderDiscoveryUrl } from './provider-adapters'
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved
+// ranges. BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ones.
+const NON_PUBLIC_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+// Time allowed for the whole request (ms)
+const FETCH_TIMEOUT = 10 * 1000
+
+let nonPublicAddresses: net.BlockList | null = null
+
+function isPublicAddress(address: string, family: number): boolean {
+  if (!nonPublicAddresses) {
+    nonPublicAddresses = new net.BlockList()
+    for (const [subnet, prefix, type] of NON_PUBLIC_RANGES) {
+      nonPublicAddresses.addSubnet(subnet, prefix, type)
+    }
+  }
+  return !nonPublicAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * `dns.lookup` failing for hosts with any address outside the public
+ * internet. Requests call it to connect, so the address checked is the one
+ * connected to.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(new Error(`Could not resolve ${hostname}`), [])
+    } else if (!addresses.every(({ address, family }) => isPublicAddress(address, family))) {
+      callback(new Error(`${hostname} is not a public address`), [])
+    } else if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/**
+ * `fetch` for URLs typed in by users: public addresses only, no redirects
+ */
+const fetchPublicUrl = createServerOnlyFn((url: string, init: RequestInit): Promise<Response> => {
+  const target = new URL(url)
+  // Requests to an IP address connect without a lookup
+  const host = target.hostname.replace(/^\[(.*)\]$/, '$1')
+  if (net.isIP(host) && !isPublicAddress(host, net.isIP(host))) {
+    return Promise.reject(new Error(`${host} is not a public address`))
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: init.method,
+        headers: init.headers as Record<string, string>,
+        lookup: publicLookup,
+        // A connection of its own, made after the check
+        agent: false,
+        timeout: FETCH_TIMEOUT,
+      },
+      (response) => {
+        const chunks: Buffer[] = []
+        response.on('data', (chunk: Buffer) => chunks.push(chunk))
+        response.on('error', reject)
+        response.on('end', () => {
+          const headers = new Headers()
+          for (const [name, value] of Object.entries(response.headers)) {
+            if (value !== undefined) {
+              headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+            }
+          }
+          const status = response.statusCode ?? 502
+          try {
+            resolve(
+              new Response([204, 304].includes(status) ? null : Buffer.concat(chunks), {
+                status,
+                statusText: response.statusMessage,
+                headers,
+              })
+            )
+          } catch (error) {
+            // A status Response does not take
+            reject(error)
+          }
+        })
+      }
+    )
+    request.on('timeout', () => request.destroy(new Error(`${target.host} did not answer in time`)))
+    request.on('error', reject)
+    request.end()
+  })
+})
+
+// Server function loading discovery metadata for the discovery page, from a
+// discovery or issuer URL, otherwise a configured provider (the default one
+// when neither is given). Administrators only, like the page.
+export const loadDiscoveryMetadata = createServerFn({ method: 'GET' })
+  .middleware([roleMiddleware(['admin'])])
+  .inputValidator(
+    validateInput(
+      z.object({
+        providerId: optionalText('Provider', 64),
+        url: optionalText('Discovery URL', 2048).refine(
+          (url) => url === undefined || /^https?:\/\//.test(url),
+          'Discovery URL must use http or https'
+        ),
+      })
+    )
+  )
+  .handler(async ({ data }) => {
+    if (!data.url) {
+      const discoveryUrl = buildProviderDiscoveryUrl(getProvider(data.providerId))
+      return { discoveryUrl, ...(await inspectDiscoveryDocument(discoveryUrl, { cached: true })) }
+    }
+
+    const discoveryUrl = discoveryUrlFromIssuer(data.url)
+    return {
+      discoveryUrl,
+      ...(await inspectDiscoveryDocument(discoveryUrl, { cached: false, fetch: fetchPublicUrl })),
+    }
+  })
@@ -0,0 +1,100 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { installMockIdp } from '@/test/mock-idp'
+import { getDiscoveryMetadata, invalidateDiscoveryCache } from './discovery-client'
+import { formatDiscoveryIssues, parseDiscoveryMetadata } from './discovery-validation'
+import { getProvider } from './idp-registry'
+
+const ISSUER = 'https://sso.example.com/realms/demo'
+
+const document = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/protocol/openid-connect/auth`,
+  token_endpoint: `${ISSUER}/protocol/openid-connect/token`,
+  jwks_uri: `${ISSUER}/protocol/openid-connect/certs`,
+  response_types_supported: ['code'],
+  subject_types_supported: ['public'],
+  id_token_signing_alg_values_supported: ['RS256'],
+}
+
+beforeAll(() => {
+  installMockIdp()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  invalidateDiscoveryCache()
+})
+
+describe('discovery documents', () => {
+  it('accepts a document with the required fields, dropping fields it does not know', () => {
+    const result = parseDiscoveryMetadata({ ...document, vendor_extension: 'x' }, { expectedIssuer: ISSUER })
+
+    expect(result).toEqual({ success: true, metadata: document, issues: [] })
+  })
+
+  it('refuses a document missing a required field or with one of the wrong type', () => {
+    const { jwks_uri: _jwksUri, ...withoutJwks } = document
+    const result = parseDiscoveryMetadata({ ...withoutJwks, token_endpoint: 'ftp://sso.example.com/token' })
+
+    expect(result.success).toBe(false)
+    expect(result.issues).toEqual([
+      { path: 'token_endpoint', severity: 'error', message: 'Expected an absolute http(s) URL' },
+      { path: 'jwks_uri', severity: 'error', message: 'Required field is missing' },
+    ])
+    expect(formatDiscoveryIssues(result.issues)).toBe(
+      'token_endpoint: Expected an absolute http(s) URL; jwks_uri: Required field is missing'
+    )
+  })
+
+  it('drops malformed optional fields and mTLS aliases with a warning', () => {
+    const result = parseDiscoveryMetadata({
+      ...document,
+      end_session_endpoint: 42,
+      mtls_endpoint_aliases: { token_endpoint: `${ISSUER}/mtls/token`, userinfo_endpoint: 'nope' },
+    })
+
+    expect(result.success && result.metadata).toMatchObject({
+      mtls_endpoint_aliases: { token_endpoint: `${ISSUER}/mtls/token` },
+    })
+    expect(result.metadata).not.toHaveProperty('end_session_endpoint')
+    expect(result.issues.map(({ path, severity }) => ({ path, severity }))).toEqual([
+      { path: 'end_session_endpoint', severity: 'warning' },
+      { path: 'mtls_endpoint_aliases.userinfo_endpoint', severity: 'warning' },
+    ])
+  })
+
+  it('checks the issuer, up to a trailing slash', () => {
+    expect(parseDiscoveryMetadata(document, { expectedIssuer: `${ISSUER}/` }).success).toBe(true)
+    expect(parseDiscoveryMetadata(document, { expectedIssuer: 'https://evil.example.com' }).issues).toEqual([
+      { path: 'issuer', severity: 'error', message: 'Issuer does not match the expected "https://evil.example.com"' },
+    ])
+  })
+
+  it('warns about providers without the authorization code flow', () => {
+    const result = parseDiscoveryMetadata({ ...document, response_types_supported: ['id_token'] })
+
+    expect(result.success).toBe(true)
+    expect(result.issues).toEqual([expect.objectContaining({ path: 'response_types_supported', severity: 'warning' })])
+  })
+
+  it('refuses what is not a JSON object', () => {
+    expect(parseDiscoveryMetadata(['issuer']).issues).toEqual([
+      { path: '', severity: 'error', message: 'Discovery document is not a JSON object' },
+    ])
+  })
+
+  it('keeps auth flows from using an invalid document', async () => {
+    const fetchFromProvider = globalThis.fetch
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const response = await fetchFromProvider(input, init)
+      if (!String(input).endsWith('/.well-known/openid-configuration')) {
+        return response
+      }
+      return Response.json({ ...(await response.json()), token_endpoint: null })
+    })
+
+    await expect(getDiscoveryMetadata(getProvider('mock'))).rejects.toThrow(
+      'Invalid discovery document: token_endpoint: Required field is missing'
+    )
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Runtime validation of discovery documents
+ * Checks a fetched `/.well-known/openid-configuration` against OpenID Connect
+ * Discovery 1.0 §3 before the rest of the app trusts its shape
+ *
+ * Missing or malformed required fields make the document unusable (errors).
+ * Malformed optional fields are dropped and reported (warnings), so a single
+ * odd extension field does not take the whole login flow down.
+ */
+
+import type { KeycloakDiscoveryMetadata } from './keycloak-discovery'
+
+export type DiscoveryIssueSeverity = 'error' | 'warning'
+
+export interface DiscoveryIssue {
+  // Dotted path of the offending field, empty for the document itself
+  path: string
+  severity: DiscoveryIssueSeverity
+  message: string
+}
+
+export type DiscoveryParseResult =
+  | { success: true; metadata: KeycloakDiscoveryMetadata; issues: DiscoveryIssue[] }
+  | { success: false; metadata: null; issues: DiscoveryIssue[] }
+
+type FieldType = 'url' | 'boolean' | 'string[]' | 'object'
+
+interface FieldSpec {
+  type: FieldType
+  required?: boolean
+}
+
+const FIELDS: Record<keyof KeycloakDiscoveryMetadata, FieldSpec> = {
+  issuer: { type: 'url', required: true },
+  authorization_endpoint: { type: 'url', required: true },
+  token_endpoint: { type: 'url', required: true },
+  jwks_uri: { type: 'url', required: true },
+  response_types_supported: { type: 'string[]', required: true },
+  subject_types_supported: { type: 'string[]', required: true },
+  id_token_signing_alg_values_supported: { type: 'string[]', required: true },
+
+  introspection_endpoint: { type: 'url' },
+  userinfo_endpoint: { type: 'url' },
+  end_session_endpoint: { type: 'url' },
+  check_session_iframe: { type: 'url' },
+  registration_endpoint: { type: 'url' },
+  revocation_endpoint: { type: 'url' },
+  device_authorization_endpoint: { type: 'url' },
+  backchannel_authentication_endpoint: { type: 'url' },
+  pushed_authorization_request_endpoint: { type: 'url' },
+
+  frontchannel_logout_session_supported: { type: 'boolean' },
+  frontchannel_logout_supported: { type: 'boolean' },
+  claims_parameter_supported: { type: 'boolean' },
+  request_parameter_supported: { type: 'boolean' },
+  request_uri_parameter_supported: { type: 'boolean' },
+  require_request_uri_registration: { type: 'boolean' },
+  tls_client_certificate_bound_access_tokens: { type: 'boolean' },
+  backchannel_logout_supported: { type: 'boolean' },
+  backchannel_logout_session_supported: { type: 'boolean' },
+  require_pushed_authorization_requests: { type: 'boolean' },
+  authorization_response_iss_parameter_supported: { type: 'boolean' },
+
+  grant_types_supported: { type: 'string[]' },
+  acr_values_supported: { type: 'string[]' },
+  id_token_encryption_alg_values_supported: { type: 'string[]' },
+  id_token_encryption_enc_values_supported: { type: 'string[]' },
+  userinfo_signing_alg_values_supported: { type: 'string[]' },
+  userinfo_encryption_alg_values_supported: { type: 'string[]' },
+  userinfo_encryption_enc_values_supported: { type: 'string[]' },
+  request_object_signing_alg_values_supported: { type: 'string[]' },
+  request_object_encryption_alg_values_supported: { type: 'string[]' },
+  request_object_encryption_enc_values_supported: { type: 'string[]' },
+  response_modes_supported: { type: 'string[]' },
+  token_endpoint_auth_methods_supported: { type: 'string[]' },
+  token_endpoint_auth_signing_alg_values_supported: { type: 'string[]' },
+  introspection_endpoint_auth_methods_supported: { type: 'string[]' },
+  introspection_endpoint_auth_signing_alg_values_supported: { type: 'string[]' },
+  authorization_signing_alg_values_supported: { type: 'string[]' },
+  authorization_encryption_alg_values_supported: { type: 'string[]' },
+  authorization_encryption_enc_values_supported: { type: 'string[]' },
+  claims_supported: { type: 'string[]' },
+  claim_types_supported: { type: 'string[]' },
+  scopes_supported: { type: 'string[]' },
+  code_challenge_methods_supported: { type: 'string[]' },
+  revocation_endpoint_auth_methods_supported: { type: 'string[]' },
+  revocation_endpoint_auth_signing_alg_values_supported: { type: 'string[]' },
+  backchannel_token_delivery_modes_supported: { type: 'string[]' },
+  backchannel_authentication_request_signing_alg_values_supported: { type: 'string[]' },
+  dpop_signing_alg_values_supported: { type: 'string[]' },
+
+  mtls_endpoint_aliases: { type: 'object' },
+}
+
+function isUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false
+  }
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'url':
+      return isUrl(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+}
+
+const TYPE_NAMES: Record<FieldType, string> = {
+  url: 'an absolute http(s) URL',
+  boolean: 'a boolean',
+  'string[]': 'an array of strings',
+  object: 'an object',
+}
+
+/**
+ * Validates an untrusted discovery document
+ *
+ * Known fields are the standard ones plus Keycloak's extensions, unknown
+ * fields are dropped. `expectedIssuer`, when given, must match the
+ * document's issuer (Discovery 1.0 §4.3) up to a trailing slash, which
+ * Authentik adds to its issuers but not to the discovery URL path.
+ */
+export function parseDiscoveryMetadata(
+  input: unknown,
+  options: { expectedIssuer?: string } = {}
+): DiscoveryParseResult {
+  const issues: DiscoveryIssue[] = []
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      success: false,
+      metadata: null,
+      issues: [{ path: '', severity: 'error', message: 'Discovery document is not a JSON object' }],
+    }
+  }
+
+  const document = input as Record<string, unknown>
+  const metadata: Record<string, unknown> = {}
+
+  for (const [field, spec] of Object.entries(FIELDS)) {
+    const value = document[field]
+
+    if (value === undefined || value === null) {
+      if (spec.required) {
+        issues.push({ path: field, severity: 'error', message: 'Required field is missing' })
+      }
+      continue
+    }
+
+    if (!matchesType(value, spec.type)) {
+      issues.push({
+        path: field,
+        severity: spec.required ? 'error' : 'warning',
+        message: `Expected ${TYPE_NAMES[spec.type]}${spec.required ? '' : ', field ignored'}`,
+      })
+      continue
+    }
+
+    metadata[field] = value
+  }
+
+  // Only the aliases that are actual URLs survive
+  if (metadata.mtls_endpoint_aliases) {
+    const aliases: Record<string, unknown> = { ...(metadata.mtls_endpoint_aliases as object) }
+    metadata.mtls_endpoint_aliases = aliases
+
+    for (const [name, url] of Object.entries(aliases)) {
+      if (!isUrl(url)) {
+        issues.push({
+          path: `mtls_endpoint_aliases.${name}`,
+          severity: 'warning',
+          message: `Expected ${TYPE_NAMES.url}, alias ignored`,
+        })
+        delete aliases[name]
+      }
+    }
+  }
+
+  if (
+    options.expectedIssuer !== undefined &&
+    typeof metadata.issuer === 'string' &&
+    metadata.issuer.replace(/\/$/, '') !== options.expectedIssuer.replace(/\/$/, '')
+  ) {
+    issues.push({
+      path: 'issuer',
+      severity: 'error',
+      message: `Issuer does not match the expected "${options.expectedIssuer}"`,
+    })
+  }
+
+  if (
+    Array.isArray(metadata.response_types_supported) &&
+    !metadata.response_types_supported.includes('code')
+  ) {
+    issues.push({
+      path: 'response_types_supported',
+      severity: 'warning',
+      message: 'The authorization code flow ("code") is not advertised',
+    })
+  }
+
+  if (issues.some((issue) => issue.severity === 'error')) {
+    return { success: false, metadata: null, issues }
+  }
+
+  return { success: true, metadata: metadata as unknown as KeycloakDiscoveryMetadata, issues }
+}
+
+/**
+ * One-line summary of the blocking issues, for error messages
+ */
+export function formatDiscoveryIssues(issues: DiscoveryIssue[]): string {
+  return issues
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+    .join('; ')
+}
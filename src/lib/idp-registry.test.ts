@@ -0,0 +1,145 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  clientCredentials,
+  getProvider,
+  isMockProviderEnabled,
+  loadProviderRegistry,
+  toPublicProvider,
+} from './idp-registry'
+import { isProviderType } from './provider-adapters'
+
+let directory: string | null = null
+
+afterEach(() => {
+  if (directory) {
+    fs.rmSync(directory, { recursive: true, force: true })
+    directory = null
+  }
+})
+
+function writeConfigFile(config: unknown): string {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'idp-registry-'))
+  const file = path.join(directory, 'providers.json')
+  fs.writeFileSync(file, JSON.stringify(config))
+  return file
+}
+
+describe('providers', () => {
+  it('starts from the built-in Keycloak realms', () => {
+    const { defaultProvider, providers } = loadProviderRegistry({})
+
+    expect(defaultProvider).toBe('famillion')
+    expect(Object.keys(providers)).toEqual(['master', 'famillion'])
+    expect(providers.famillion).toMatchObject({
+      type: 'keycloak',
+      label: 'Famillion Realm',
+      baseUrl: 'https://key.basthub.cloud',
+      realm: 'famillion',
+      pushedAuthorization: false,
+    })
+  })
+
+  it('adds and overrides providers from the environment', () => {
+    const { defaultProvider, providers } = loadProviderRegistry({
+      IDP_PROVIDERS: 'corp',
+      IDP_DEFAULT_PROVIDER: 'corp',
+      IDP_CORP_TYPE: 'dex',
+      IDP_CORP_BASE_URL: 'https://dex.corp/',
+      IDP_CORP_CLIENT_ID: 'portal',
+      IDP_CORP_SCOPES: 'openid, email',
+      IDP_FAMILLION_PAR: 'true',
+    })
+
+    expect(defaultProvider).toBe('corp')
+    expect(providers.corp).toMatchObject({
+      type: 'dex',
+      label: 'corp',
+      baseUrl: 'https://dex.corp',
+      realm: '',
+      clientId: 'portal',
+      scopes: ['openid', 'email'],
+    })
+    expect(providers.famillion.pushedAuthorization).toBe(true)
+  })
+
+  it('takes the providers of a config file instead of the built-in ones', () => {
+    const file = writeConfigFile({
+      defaultProvider: 'corp',
+      providers: { corp: { type: 'generic', baseUrl: 'https://sso.corp', clientId: 'portal' } },
+    })
+    const { defaultProvider, providers } = loadProviderRegistry({ IDP_CONFIG_FILE: file, IDP_CORP_CLIENT_ID: 'app' })
+
+    expect(defaultProvider).toBe('corp')
+    expect(Object.keys(providers)).toEqual(['corp'])
+    expect(providers.corp.clientId).toBe('app')
+  })
+
+  it('reports every problem at once', () => {
+    const load = () =>
+      loadProviderRegistry({
+        IDP_PROVIDERS: 'corp',
+        IDP_DEFAULT_PROVIDER: 'missing',
+        IDP_CORP_TYPE: 'generic',
+        IDP_CORP_SCOPES: 'profile',
+        IDP_FAMILLION_BROKERS: 'google,constructor',
+      })
+
+    expect(load).toThrow('provider "corp": baseUrl must be an absolute http(s) URL (IDP_CORP_BASE_URL)')
+    expect(load).toThrow('provider "corp": clientId is required for OpenID Connect (IDP_CORP_CLIENT_ID)')
+    expect(load).toThrow('provider "corp": scopes must include "openid" (IDP_CORP_SCOPES)')
+    expect(load).toThrow('provider "famillion": unknown broker "constructor"')
+    expect(load).toThrow('default provider "missing" is not configured')
+  })
+
+  it('reports a config file it cannot read', () => {
+    expect(() => loadProviderRegistry({ IDP_CONFIG_FILE: '/nonexistent/providers.json' })).toThrow(
+      'cannot read IDP_CONFIG_FILE'
+    )
+  })
+
+  it('knows only the providers it was given', () => {
+    expect(getProvider('famillion').realm).toBe('famillion')
+    expect(() => getProvider('toString')).toThrow('Unknown identity provider "toString"')
+  })
+
+  it('keeps the client secret on the server and sends it for the configured client only', () => {
+    const { providers } = loadProviderRegistry({ IDP_FAMILLION_CLIENT_SECRET: 's3cret' })
+    const provider = providers.famillion
+
+    expect(toPublicProvider(provider)).not.toHaveProperty('clientSecret')
+    expect(clientCredentials(provider)).toEqual({ client_id: provider.clientId, client_secret: 's3cret' })
+    expect(clientCredentials(provider, 'other-app')).toEqual({ client_id: 'other-app' })
+  })
+})
+
+describe('mock provider', () => {
+  it('is enabled by MOCK_IDP=true', () => {
+    expect(isMockProviderEnabled({ MOCK_IDP: 'true' })).toBe(true)
+    expect(loadProviderRegistry({ MOCK_IDP: 'true' }).providers.mock).toBeDefined()
+    expect(loadProviderRegistry({}).providers.mock).toBeUndefined()
+  })
+
+  it('stays off in production, even with MOCK_IDP=true', () => {
+    const env = { MOCK_IDP: 'true', NODE_ENV: 'production' }
+
+    expect(isMockProviderEnabled(env)).toBe(false)
+    expect(loadProviderRegistry(env).providers.mock).toBeUndefined()
+  })
+})
+
+describe('provider types', () => {
+  it('takes only the names of adapters, not what every object has', () => {
+    expect(isProviderType('dex')).toBe(true)
+    expect(isProviderType('toString')).toBe(false)
+    expect(isProviderType('__proto__')).toBe(false)
+  })
+
+  it('reports a provider of an unknown type', () => {
+    const env = { IDP_PROVIDERS: 'corp', IDP_CORP_TYPE: 'constructor', IDP_CORP_BASE_URL: 'https://sso.corp' }
+
+    expect(() => loadProviderRegistry(env)).toThrow('provider "corp": unknown type "constructor"')
+  })
+})
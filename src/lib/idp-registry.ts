@@ -0,0 +1,280 @@
+/**
+ * Identity provider registry
+ * Typed configuration for every identity provider the app talks to, loaded
+ * once on the server and validated when the server entry loads (src/server.ts).
+ * `type` picks the provider adapter (see provider-adapters.ts), Keycloak by
+ * default; Dex and generic providers are located by their issuer URL alone.
+ *
+ * Sources, later ones win:
+ *   1. KEYCLOAK_CONFIGS, the built-in realms, and `mock` while
+ *      isMockProviderEnabled (only when no config file is set)
+ *   2. the JSON file named by IDP_CONFIG_FILE:
+ *      { "defaultProvider": "famillion", "providers": { "<id>": { ... } } }
+ *   3. environment variables: IDP_PROVIDERS (comma-separated ids to add),
+ *      IDP_DEFAULT_PROVIDER and, per provider, IDP_<ID>_TYPE, IDP_<ID>_BASE_URL,
+ *      IDP_<ID>_REALM, IDP_<ID>_CLIENT_ID, IDP_<ID>_CLIENT_SECRET,
+ *      IDP_<ID>_SCOPES, IDP_<ID>_BROKERS (comma-separated) and IDP_<ID>_PAR
+ *      (true to push authorization requests even when the realm doesn't require it)
+ */
+
+import fs from 'node:fs'
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { IDP_BROKER_ENDPOINTS, KEYCLOAK_CONFIGS, type IdpBroker } from './keycloak-discovery'
+import {
+  PROVIDER_TYPES,
+  getProviderAdapter,
+  isProviderType,
+  type ProviderType,
+} from './provider-adapters'
+
+export interface IdentityProviderConfig {
+  id: string
+  label: string
+  type: ProviderType
+  // The issuer URL itself for providers without a realm
+  baseUrl: string
+  // Keycloak realm or Authentik application slug, empty for other providers
+  realm: string
+  clientId: string
+  clientSecret?: string
+  scopes: string[]
+  // Identity providers of the realm offered as social login (kc_idp_hint)
+  brokers: IdpBroker[]
+  // Push authorization requests (PAR) even when the realm doesn't require it
+  pushedAuthorization: boolean
+}
+
+/**
+ * Provider settings that are safe to send to the browser
+ */
+export type PublicProviderConfig = Omit<IdentityProviderConfig, 'clientSecret'>
+
+export interface ProviderRegistry {
+  defaultProvider: string
+  providers: Record<string, IdentityProviderConfig>
+}
+
+const DEFAULT_PROVIDER = 'famillion'
+
+type Env = Record<string, string | undefined>
+
+function envKey(id: string, field: string): string {
+  return `IDP_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_${field}`
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+function builtInProviders(env: Env): Record<string, Partial<IdentityProviderConfig>> {
+  const providers: Record<string, Partial<IdentityProviderConfig>> = Object.fromEntries(
+    Object.entries(KEYCLOAK_CONFIGS).map(([id, config]) => [
+      id,
+      {
+        ...config,
+        type: 'keycloak' as const,
+        label: `${config.realm.charAt(0).toUpperCase()}${config.realm.slice(1)} Realm`,
+        brokers: Object.keys(IDP_BROKER_ENDPOINTS) as IdpBroker[],
+      },
+    ])
+  )
+
+  if (isMockProviderEnabled(env)) {
+    providers.mock = {
+      type: 'keycloak',
+      label: 'Mock Realm',
+      // This app serves it, on the port it listens on; IDP_MOCK_BASE_URL
+      // overrides it like any other provider's
+      baseUrl: `http://localhost:${env.PORT ?? 3000}${MOCK_IDP_PATH}`,
+      realm: 'mock',
+      // The mock provider has no identity brokering
+      brokers: [],
+    }
+  }
+
+  return providers
+}
+
+// Where the mock provider of mock-oidc-provider.ts is mounted (src/routes/mock-idp.$.ts)
+export const MOCK_IDP_PATH = '/mock-idp'
+
+/**
+ * The mock provider is only served when MOCK_IDP=true, and never in
+ * production: anyone could sign in as any of its users
+ */
+export function isMockProviderEnabled(env: Env = process.env): boolean {
+  return env.MOCK_IDP === 'true' && env.NODE_ENV !== 'production'
+}
+
+function readConfigFile(file: string): {
+  defaultProvider?: string
+  providers?: Record<string, Partial<IdentityProviderConfig>>
+} {
+  let content: string
+  try {
+    content = fs.readFileSync(file, 'utf-8')
+  } catch {
+    throw new Error(`Invalid identity provider configuration: cannot read IDP_CONFIG_FILE "${file}"`)
+  }
+
+  try {
+    return JSON.parse(content)
+  } catch {
+    throw new Error(`Invalid identity provider configuration: IDP_CONFIG_FILE "${file}" is not valid JSON`)
+  }
+}
+
+function applyEnv(id: string, provider: Partial<IdentityProviderConfig>, env: Env) {
+  const value = (field: string) => env[envKey(id, field)]
+
+  return {
+    ...provider,
+    type: (value('TYPE') as ProviderType | undefined) ?? provider.type,
+    baseUrl: value('BASE_URL') ?? provider.baseUrl,
+    realm: value('REALM') ?? provider.realm,
+    clientId: value('CLIENT_ID') ?? provider.clientId,
+    clientSecret: value('CLIENT_SECRET') ?? provider.clientSecret,
+    scopes: value('SCOPES') !== undefined ? splitList(value('SCOPES')!) : provider.scopes,
+    brokers: value('BROKERS') !== undefined
+      ? (splitList(value('BROKERS')!) as IdpBroker[])
+      : provider.brokers,
+    pushedAuthorization: value('PAR') !== undefined
+      ? value('PAR') === 'true'
+      : provider.pushedAuthorization,
+  }
+}
+
+function validateProvider(
+  id: string,
+  provider: Partial<IdentityProviderConfig>,
+  issues: string[]
+): IdentityProviderConfig {
+  const prefix = `provider "${id}"`
+
+  if (provider.type !== undefined && !isProviderType(provider.type)) {
+    issues.push(
+      `${prefix}: unknown type "${provider.type}", expected one of ${PROVIDER_TYPES.join(', ')} (${envKey(id, 'TYPE')})`
+    )
+  }
+  const adapter = getProviderAdapter(isProviderType(provider.type) ? provider.type : undefined)
+
+  if (!provider.baseUrl || !/^https?:\/\/[^/]+/.test(provider.baseUrl)) {
+    issues.push(`${prefix}: baseUrl must be an absolute http(s) URL (${envKey(id, 'BASE_URL')})`)
+  }
+  if (adapter.realmLabel && !provider.realm) {
+    issues.push(`${prefix}: ${adapter.realmLabel} is required (${envKey(id, 'REALM')})`)
+  }
+  if (provider.clientId !== undefined && !provider.clientId) {
+    issues.push(`${prefix}: clientId must not be empty (${envKey(id, 'CLIENT_ID')})`)
+  } else if (provider.clientId === undefined && !adapter.defaultClientId) {
+    issues.push(`${prefix}: clientId is required for ${adapter.label} (${envKey(id, 'CLIENT_ID')})`)
+  }
+  if (provider.scopes && !provider.scopes.includes('openid')) {
+    issues.push(`${prefix}: scopes must include "openid" (${envKey(id, 'SCOPES')})`)
+  }
+  if (!adapter.supportsBrokers && provider.brokers?.length) {
+    issues.push(`${prefix}: brokers are only supported by Keycloak (${envKey(id, 'BROKERS')})`)
+  }
+  for (const broker of provider.brokers ?? []) {
+    if (!Object.hasOwn(IDP_BROKER_ENDPOINTS, broker)) {
+      issues.push(
+        `${prefix}: unknown broker "${broker}", expected one of ${Object.keys(IDP_BROKER_ENDPOINTS).join(', ')}`
+      )
+    }
+  }
+
+  return {
+    id,
+    label: provider.label ?? id,
+    type: adapter.type,
+    baseUrl: provider.baseUrl?.replace(/\/+$/, '') ?? '',
+    realm: adapter.realmLabel ? provider.realm ?? '' : '',
+    clientId: provider.clientId ?? adapter.defaultClientId ?? '',
+    clientSecret: provider.clientSecret || undefined,
+    scopes: provider.scopes ?? adapter.defaultScopes,
+    brokers: provider.brokers ?? [],
+    pushedAuthorization: provider.pushedAuthorization ?? false,
+  }
+}
+
+/**
+ * Builds and validates the registry, throwing one error listing every problem
+ */
+export function loadProviderRegistry(env: Env = process.env): ProviderRegistry {
+  const file = env.IDP_CONFIG_FILE ? readConfigFile(env.IDP_CONFIG_FILE) : null
+  const sources: Record<string, Partial<IdentityProviderConfig>> = {
+    ...(file ? file.providers ?? {} : builtInProviders(env)),
+  }
+  for (const id of splitList(env.IDP_PROVIDERS ?? '')) {
+    if (!Object.hasOwn(sources, id)) {
+      sources[id] = {}
+    }
+  }
+
+  const issues: string[] = []
+  const providers: Record<string, IdentityProviderConfig> = {}
+  for (const [id, provider] of Object.entries(sources)) {
+    providers[id] = validateProvider(id, applyEnv(id, provider, env), issues)
+  }
+
+  const ids = Object.keys(providers)
+  const defaultProvider =
+    env.IDP_DEFAULT_PROVIDER ?? (file ? file.defaultProvider ?? ids[0] : DEFAULT_PROVIDER)
+  if (ids.length === 0) {
+    issues.push('no providers configured')
+  } else if (!Object.hasOwn(providers, defaultProvider)) {
+    issues.push(`default provider "${defaultProvider}" is not configured, expected one of ${ids.join(', ')}`)
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid identity provider configuration:\n  - ${issues.join('\n  - ')}`)
+  }
+
+  return { defaultProvider, providers }
+}
+
+let registry: ProviderRegistry | null = null
+
+export const getProviderRegistry = createServerOnlyFn((): ProviderRegistry => {
+  registry ??= loadProviderRegistry()
+  return registry
+})
+
+/**
+ * Looks up a provider by id, or the default provider
+ */
+export const getProvider = createServerOnlyFn((id?: string): IdentityProviderConfig => {
+  const { defaultProvider, providers } = getProviderRegistry()
+  const key = id ?? defaultProvider
+  if (!Object.hasOwn(providers, key)) {
+    throw new Error(`Unknown identity provider "${id}"`)
+  }
+  return providers[key]
+})
+
+/**
+ * Client authentication parameters for token, logout, introspection and
+ * revocation requests. The secret is only sent for the configured client.
+ */
+export function clientCredentials(
+  provider: IdentityProviderConfig,
+  clientId: string = provider.clientId
+): Record<string, string> {
+  return provider.clientSecret && clientId === provider.clientId
+    ? { client_id: clientId, client_secret: provider.clientSecret }
+    : { client_id: clientId }
+}
+
+export function toPublicProvider(provider: IdentityProviderConfig): PublicProviderConfig {
+  const { clientSecret: _clientSecret, ...publicConfig } = provider
+  return publicConfig
+}
+
+// Server function listing the configured providers for the login and discovery pages
+export const listProviders = createServerFn({ method: 'GET' }).handler(async () => {
+  const { defaultProvider, providers } = getProviderRegistry()
+  return {
+    defaultProvider,
+    providers: Object.values(providers).map(toPublicProvider),
+  }
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { optionalText, requiredText, validateInput } from './input-validation'
+import { addTodo } from './todos'
+import { isValidationError, ValidationError } from './validation-errors'
+
+const validateTodo = validateInput(
+  z.object({
+    name: requiredText('Name', 10),
+    note: optionalText('Note', 5),
+    tags: z.array(requiredText('Tag', 3)).optional(),
+  })
+)
+
+// What `validate` threw for `input`
+function rejection(validate: (input: never) => unknown, input: unknown): ValidationError {
+  try {
+    validate(input as never)
+  } catch (error) {
+    if (isValidationError(error)) {
+      return error
+    }
+    throw error
+  }
+  return expect.unreachable('the input was accepted')
+}
+
+describe('input validation', () => {
+  it('trims text and drops empty optional text', () => {
+    expect(validateTodo({ name: '  Milk ', note: '   ' })).toEqual({ name: 'Milk', note: undefined })
+  })
+
+  it('lists messages per field, nested fields by their dotted path', () => {
+    const error = rejection(validateTodo, { name: ' ', note: 'far too long', tags: ['ok', 'long'] })
+
+    expect(error.fieldErrors).toEqual({
+      name: ['Name must not be empty'],
+      note: ['Note must be at most 5 characters'],
+      'tags.1': ['Tag must be at most 3 characters'],
+    })
+    expect(error.formErrors).toEqual([])
+    expect(error.message).toBe('Name must not be empty')
+  })
+
+  it('names missing and mistyped fields', () => {
+    expect(rejection(validateTodo, { note: 42 }).fieldErrors).toEqual({
+      name: ['Name is required'],
+      note: ['Note must be text'],
+    })
+  })
+
+  it('reports input that is not an object at all as a form error', () => {
+    const error = rejection(validateTodo, 'Milk')
+
+    expect(error.fieldErrors).toEqual({})
+    expect(error.formErrors).toEqual(['Expected object, received string'])
+    expect(error.message).toBe('Expected object, received string')
+  })
+
+  it('rejects server function calls before the handler runs', async () => {
+    await expect(addTodo({ data: { name: '' } })).rejects.toMatchObject({
+      name: 'ValidationError',
+      fieldErrors: { name: ['Todo name must not be empty'] },
+    })
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Server function input validation
+ * Zod schemas check, trim and bound what clients send before a handler runs.
+ * Rejected input throws a ValidationError (see validation-errors.ts) listing
+ * messages per field.
+ *
+ * Server-side only: pages import validation-errors.ts, which keeps zod out of
+ * the client bundle.
+ */
+
+import { z } from 'zod'
+import { ValidationError, type FieldErrors } from './validation-errors'
+
+function toValidationError(error: z.ZodError): ValidationError {
+  const fieldErrors: FieldErrors = {}
+  const formErrors: string[] = []
+  for (const issue of error.issues) {
+    if (issue.path.length === 0) {
+      formErrors.push(issue.message)
+    } else {
+      const path = issue.path.join('.')
+      fieldErrors[path] = [...(fieldErrors[path] ?? []), issue.message]
+    }
+  }
+  return new ValidationError(fieldErrors, formErrors)
+}
+
+/**
+ * Turns a schema into an `inputValidator`: callers pass the schema's input
+ * type, the handler receives its parsed output
+ */
+export function validateInput<TSchema extends z.ZodTypeAny>(schema: TSchema) {
+  return (input: z.input<TSchema>): z.output<TSchema> => {
+    const result = schema.safeParse(input)
+    if (!result.success) {
+      throw toValidationError(result.error)
+    }
+    return result.data
+  }
+}
+
+/**
+ * A required string, trimmed, between 1 and `max` characters
+ */
+export function requiredText(label: string, max: number) {
+  return z
+    .string({ required_error: `${label} is required`, invalid_type_error: `${label} must be text` })
+    .trim()
+    .min(1, `${label} must not be empty`)
+    .max(max, `${label} must be at most ${max} characters`)
+}
+
+/**
+ * An optional string, trimmed, at most `max` characters; empty counts as absent
+ */
+export function optionalText(label: string, max: number) {
+  return z
+    .string({ invalid_type_error: `${label} must be text` })
+    .trim()
+    .max(max, `${label} must be at most ${max} characters`)
+    .optional()
+    .transform((value) => value || undefined)
+}
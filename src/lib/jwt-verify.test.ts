@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getAllowedAlgorithms, verifyJwt, type VerifyTokenOptions } from './jwt-verify'
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+const ISSUER = 'https://idp.example.com/realms/test'
+const CLIENT_ID = 'app'
+const NOW = Date.UTC(2026, 0, 1) / 1000
+
+interface SigningKey {
+  kid: string
+  alg: string
+  privateKey: CryptoKey
+  jwk: JsonWebKey & { kid: string }
+}
+
+let published: JsonWebKey[]
+let jwksFetch: ReturnType<typeof vi.fn>
+let metadata: OidcDiscoveryMetadata
+let jwksUris = 0
+
+function base64UrlEncode(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+async function createKey(kid: string, alg: 'RS256' | 'ES256' = 'RS256'): Promise<SigningKey> {
+  const params =
+    alg === 'RS256'
+      ? { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }
+      : { name: 'ECDSA', namedCurve: 'P-256' }
+  const { privateKey, publicKey } = (await crypto.subtle.generateKey(params, true, ['sign', 'verify'])) as CryptoKeyPair
+  const jwk = { ...(await crypto.subtle.exportKey('jwk', publicKey)), kid, alg, use: 'sig' }
+  return { kid, alg, privateKey, jwk }
+}
+
+async function sign(
+  key: SigningKey,
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: key.alg, kid: key.kid }
+): Promise<string> {
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`
+  const params = key.alg === 'RS256' ? { name: 'RSASSA-PKCS1-v1_5' } : { name: 'ECDSA', hash: 'SHA-256' }
+  const signature = await crypto.subtle.sign(params, key.privateKey, new TextEncoder().encode(signingInput))
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { iss: ISSUER, sub: 'alice', aud: CLIENT_ID, azp: CLIENT_ID, iat: NOW, exp: NOW + 300, ...overrides }
+}
+
+async function verify(token: string, options: Partial<VerifyTokenOptions> = {}) {
+  return await verifyJwt(token, { metadata, audience: CLIENT_ID, ...options })
+}
+
+function errorCode(result: Awaited<ReturnType<typeof verifyJwt>>) {
+  return result.valid ? null : result.error.code
+}
+
+let rsaKey: SigningKey
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW * 1000)
+
+  rsaKey ??= await createKey('rsa-1')
+  published = [rsaKey.jwk]
+  jwksFetch = vi.fn(async () => Response.json({ keys: published }))
+  vi.stubGlobal('fetch', jwksFetch)
+
+  // Keys are cached per JWKS URI: a fresh one per test starts with an empty cache
+  metadata = {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/auth`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/certs/${++jwksUris}`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256', 'ES256'],
+  }
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('signature', () => {
+  it('accepts a token signed with a published key', async () => {
+    const result = await verify(await sign(rsaKey, claims()))
+    expect(result).toEqual({ valid: true, claims: claims() })
+  })
+
+  it('rejects a token whose payload was changed after signing', async () => {
+    const [header, , signature] = (await sign(rsaKey, claims())).split('.')
+    const forged = `${header}.${base64UrlEncode(JSON.stringify(claims({ sub: 'mallory' })))}.${signature}`
+    expect(errorCode(await verify(forged))).toBe('invalid_signature')
+  })
+
+  it('rejects tokens that are not a compact JWS', async () => {
+    expect(errorCode(await verify('not-a-token'))).toBe('malformed')
+    expect(errorCode(await verify('a.b.c'))).toBe('malformed')
+  })
+})
+
+describe('algorithm allowlist', () => {
+  it('rejects unsigned tokens', async () => {
+    const header = base64UrlEncode(JSON.stringify({ alg: 'none' }))
+    const token = `${header}.${base64UrlEncode(JSON.stringify(claims()))}.`
+    expect(errorCode(await verify(token))).toBe('unsupported_algorithm')
+  })
+
+  it('rejects HMAC even when the provider advertises it', async () => {
+    metadata.id_token_signing_alg_values_supported = ['HS256', 'RS256']
+    const token = await sign(rsaKey, claims(), { alg: 'HS256', kid: rsaKey.kid })
+    expect(errorCode(await verify(token))).toBe('unsupported_algorithm')
+  })
+
+  it('rejects algorithms the provider does not advertise', async () => {
+    metadata.id_token_signing_alg_values_supported = ['ES256']
+    expect(errorCode(await verify(await sign(rsaKey, claims())))).toBe('unsupported_algorithm')
+  })
+
+  it('knows only algorithm names, not what every object has', () => {
+    expect(getAllowedAlgorithms(metadata, ['toString', 'constructor', 'RS256'])).toEqual(['RS256'])
+  })
+
+  it('takes the algorithms to accept from the options', async () => {
+    const token = await sign(rsaKey, claims())
+    expect(errorCode(await verify(token, { algorithms: ['ES256'] }))).toBe('unsupported_algorithm')
+    expect(errorCode(await verify(token, { algorithms: ['RS256'] }))).toBeNull()
+  })
+
+  it('rejects a header algorithm the key is not meant for', async () => {
+    const ecKey = await createKey('ec-1', 'ES256')
+    published = [{ ...ecKey.jwk, alg: 'ES384' }]
+    metadata.id_token_signing_alg_values_supported = ['ES256', 'ES384']
+    expect(errorCode(await verify(await sign(ecKey, claims())))).toBe('unsupported_algorithm')
+  })
+
+  it('verifies ECDSA signatures', async () => {
+    const ecKey = await createKey('ec-1', 'ES256')
+    published = [rsaKey.jwk, ecKey.jwk]
+    expect(errorCode(await verify(await sign(ecKey, claims())))).toBeNull()
+  })
+})
+
+describe('key rotation', () => {
+  it('fetches the JWKS once while its keys are known', async () => {
+    await verify(await sign(rsaKey, claims()))
+    await verify(await sign(rsaKey, claims()))
+    expect(jwksFetch).toHaveBeenCalledOnce()
+  })
+
+  it('refetches the JWKS for an unknown kid and picks up the new key', async () => {
+    await verify(await sign(rsaKey, claims()))
+    vi.advanceTimersByTime(60 * 1000)
+
+    const rotated = await createKey('rsa-2')
+    published = [rotated.jwk]
+    expect(errorCode(await verify(await sign(rotated, claims({ exp: NOW + 600 }))))).toBeNull()
+    expect(jwksFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('refetches for unknown kids at most every 30 seconds', async () => {
+    await verify(await sign(rsaKey, claims()))
+    const unknown = await sign(rsaKey, claims(), { alg: 'RS256', kid: 'unknown' })
+
+    expect(errorCode(await verify(unknown))).toBe('unknown_key')
+    expect(errorCode(await verify(unknown))).toBe('unknown_key')
+    expect(jwksFetch).toHaveBeenCalledOnce()
+
+    vi.advanceTimersByTime(30 * 1000)
+    expect(errorCode(await verify(unknown))).toBe('unknown_key')
+    expect(jwksFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports an unreachable JWKS apart from invalid tokens', async () => {
+    jwksFetch.mockImplementation(async () => new Response('down', { status: 503 }))
+    expect(errorCode(await verify(await sign(rsaKey, claims())))).toBe('jwks_unavailable')
+  })
+})
+
+describe('claims', () => {
+  it('checks the issuer', async () => {
+    const token = await sign(rsaKey, claims({ iss: 'https://idp.example.com/realms/other' }))
+    expect(errorCode(await verify(token))).toBe('invalid_issuer')
+  })
+
+  it('checks the audience, alone or among others', async () => {
+    expect(errorCode(await verify(await sign(rsaKey, claims({ aud: 'other' }))))).toBe('invalid_audience')
+    expect(errorCode(await verify(await sign(rsaKey, claims({ aud: ['other', CLIENT_ID] }))))).toBeNull()
+    expect(errorCode(await verify(await sign(rsaKey, claims({ aud: undefined }))))).toBe('invalid_audience')
+  })
+
+  it('checks the authorized party', async () => {
+    const options = { authorizedParty: CLIENT_ID }
+    expect(errorCode(await verify(await sign(rsaKey, claims({ azp: 'other' })), options))).toBe(
+      'invalid_authorized_party'
+    )
+    // Without azp, a single audience is the authorized party
+    expect(errorCode(await verify(await sign(rsaKey, claims({ azp: undefined })), options))).toBeNull()
+    // but several audiences need azp
+    const token = await sign(rsaKey, claims({ aud: [CLIENT_ID, 'other'], azp: undefined }))
+    expect(errorCode(await verify(token, options))).toBe('invalid_authorized_party')
+  })
+
+  it('rejects expired tokens, allowing for clock skew', async () => {
+    const token = await sign(rsaKey, claims({ exp: NOW - 10 }))
+    expect(errorCode(await verify(token))).toBeNull()
+    expect(errorCode(await verify(token, { clockTolerance: 0 }))).toBe('expired')
+    expect(errorCode(await verify(await sign(rsaKey, claims({ exp: NOW - 30 }))))).toBe('expired')
+  })
+
+  it('requires an expiry unless told otherwise', async () => {
+    const token = await sign(rsaKey, claims({ exp: undefined }))
+    expect(errorCode(await verify(token))).toBe('expired')
+    expect(errorCode(await verify(token, { requireExpiry: false }))).toBeNull()
+  })
+
+  it('rejects tokens used before their nbf, allowing for clock skew', async () => {
+    expect(errorCode(await verify(await sign(rsaKey, claims({ nbf: NOW + 10 }))))).toBeNull()
+    expect(errorCode(await verify(await sign(rsaKey, claims({ nbf: NOW + 60 }))))).toBe('not_yet_valid')
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * JSON Web Token verification against the realm JWKS
+ * Checks the signature with the realm's published keys, then the standard
+ * claims (iss, aud, azp, exp, nbf)
+ *
+ * Keys are cached per JWKS URI and kid; an unknown kid triggers a refetch
+ * so that Keycloak key rotation is picked up without a restart.
+ */
+
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+export interface TokenClaims {
+  iss: string
+  exp: number
+  sub?: string
+  aud?: string | string[]
+  azp?: string
+  iat?: number
+  nbf?: number
+  nonce?: string
+  [claim: string]: unknown
+}
+
+export type TokenVerificationErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'invalid_authorized_party'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'jwks_unavailable'
+
+export interface TokenVerificationError {
+  code: TokenVerificationErrorCode
+  message: string
+}
+
+export type TokenVerificationResult =
+  | { valid: true; claims: TokenClaims }
+  | { valid: false; error: TokenVerificationError }
+
+export interface VerifyTokenOptions {
+  metadata: OidcDiscoveryMetadata
+  // Advertised signing algorithms to accept, the ID token ones by default
+  algorithms?: string[]
+  // Expected `aud` value, usually the client id (required for ID tokens)
+  audience?: string
+  // Expected `azp` value, the client the token was issued to
+  authorizedParty?: string
+  // Accepted clock skew in seconds for exp and nbf
+  clockTolerance?: number
+  // False for JWTs without an expiry, like signed userinfo responses
+  requireExpiry?: boolean
+}
+
+interface JwtHeader {
+  alg: string
+  kid?: string
+  typ?: string
+}
+
+interface AlgorithmParams {
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm
+  verifyParams: Algorithm | RsaPssParams | EcdsaParams
+}
+
+const ALGORITHMS: Record<string, AlgorithmParams> = {
+  RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+  RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+  RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+  PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } as RsaPssParams },
+  PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } as RsaPssParams },
+  PS512: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } as RsaPssParams },
+  ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } as EcdsaParams },
+  ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } as EcdsaParams },
+  ES512: { importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' } as EcdsaParams },
+  EdDSA: { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } },
+}
+
+// Don't hammer the JWKS endpoint when tokens carry a kid it really doesn't know
+const JWKS_REFETCH_INTERVAL = 30 * 1000
+
+const jwksCache = new Map<string, { keys: Map<string, JsonWebKey & { kid?: string }>; fetchedAt: number }>()
+
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function decodeJson<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+}
+
+function failure(code: TokenVerificationErrorCode, message: string): TokenVerificationResult {
+  return { valid: false, error: { code, message } }
+}
+
+async function fetchJwks(jwksUri: string) {
+  const response = await fetch(jwksUri, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS: ${response.status} ${response.statusText}`)
+  }
+
+  const { keys } = (await response.json()) as { keys: Array<JsonWebKey & { kid?: string; use?: string }> }
+  const entry = {
+    keys: new Map(keys.filter((key) => key.use !== 'enc').map((key) => [key.kid ?? '', key])),
+    fetchedAt: Date.now(),
+  }
+  jwksCache.set(jwksUri, entry)
+
+  return entry
+}
+
+/**
+ * Finds the signing key for a kid, refetching the JWKS once when it is unknown
+ */
+async function findKey(jwksUri: string, kid: string | undefined) {
+  const lookup = (keys: Map<string, JsonWebKey>) =>
+    kid !== undefined ? keys.get(kid) : keys.size === 1 ? keys.values().next().value : undefined
+
+  let entry = jwksCache.get(jwksUri)
+  const cached = entry && lookup(entry.keys)
+  if (cached) {
+    return cached
+  }
+
+  if (!entry || Date.now() - entry.fetchedAt >= JWKS_REFETCH_INTERVAL) {
+    entry = await fetchJwks(jwksUri)
+  }
+
+  return lookup(entry.keys)
+}
+
+/**
+ * Algorithms accepted for the realm: advertised by the provider and
+ * implementable with a public key (no `none`, no HMAC)
+ */
+export function getAllowedAlgorithms(
+  metadata: OidcDiscoveryMetadata,
+  advertised: string[] = metadata.id_token_signing_alg_values_supported
+): string[] {
+  return advertised.filter((alg) => Object.hasOwn(ALGORITHMS, alg))
+}
+
+/**
+ * Verifies a JWT signature and its standard claims
+ */
+export async function verifyJwt(
+  token: string,
+  options: VerifyTokenOptions
+): Promise<TokenVerificationResult> {
+  const { metadata, algorithms, audience, authorizedParty, clockTolerance = 30, requireExpiry = true } = options
+  const segments = token.split('.')
+  if (segments.length !== 3) {
+    return failure('malformed', 'Token is not a compact JWS')
+  }
+
+  let header: JwtHeader
+  let claims: TokenClaims
+  try {
+    header = decodeJson(segments[0])
+    claims = decodeJson(segments[1])
+  } catch {
+    return failure('malformed', 'Token header or payload is not valid JSON')
+  }
+
+  if (!getAllowedAlgorithms(metadata, algorithms).includes(header.alg)) {
+    return failure('unsupported_algorithm', `Signing algorithm "${header.alg}" is not allowed`)
+  }
+
+  let jwk: JsonWebKey | undefined
+  try {
+    jwk = await findKey(metadata.jwks_uri, header.kid)
+  } catch (error) {
+    return failure('jwks_unavailable', error instanceof Error ? error.message : 'Failed to fetch JWKS')
+  }
+
+  if (!jwk) {
+    return failure('unknown_key', `No signing key found for kid "${header.kid ?? ''}"`)
+  }
+  if (jwk.alg && jwk.alg !== header.alg) {
+    return failure('unsupported_algorithm', `Key "${header.kid}" is not meant for ${header.alg}`)
+  }
+
+  const algorithm = ALGORITHMS[header.alg]
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify'])
+    const signed = new TextEncoder().encode(`${segments[0]}.${segments[1]}`)
+    const valid = await crypto.subtle.verify(
+      algorithm.verifyParams,
+      key,
+      base64UrlDecode(segments[2]),
+      signed
+    )
+    if (!valid) {
+      return failure('invalid_signature', 'Token signature does not match')
+    }
+  } catch {
+    return failure('invalid_signature', 'Token signature could not be checked')
+  }
+
+  if (claims.iss !== metadata.issuer) {
+    return failure('invalid_issuer', `Unexpected issuer "${claims.iss}"`)
+  }
+
+  const audiences = claims.aud === undefined ? [] : Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (audience && !audiences.includes(audience)) {
+    return failure('invalid_audience', `Token is not intended for "${audience}"`)
+  }
+
+  if (authorizedParty) {
+    // OIDC Core 3.1.3.7: azp is required when there are several audiences
+    if ((claims.azp ?? (audiences.length > 1 ? undefined : audiences[0])) !== authorizedParty) {
+      return failure('invalid_authorized_party', `Token was not issued to "${authorizedParty}"`)
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  if (typeof claims.exp !== 'number' ? requireExpiry : claims.exp + clockTolerance <= now) {
+    return failure('expired', 'Token has expired')
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - clockTolerance > now) {
+    return failure('not_yet_valid', 'Token is not valid yet')
+  }
+
+  return { valid: true, claims }
+}
@@ -0,0 +1,20 @@
+/**
+ * JSON Web Token helpers
+ */
+
+// Helper function to decode JWT without verification (for display purposes only)
+export function decodeJwt(token: string): Record<string, unknown> {
+  try {
+    const base64Url = token.split('.')[1]
+    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+    const jsonPayload = decodeURIComponent(
+      atob(base64)
+        .split('')
+        .map((c) => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
+        .join('')
+    )
+    return JSON.parse(jsonPayload)
+  } catch {
+    return {}
+  }
+}
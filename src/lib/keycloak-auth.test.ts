@@ -0,0 +1,208 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCookies, getCookieExpiry } from '@/test/react-start-server'
+import { installMockIdp, signIn, signInAt } from '@/test/mock-idp'
+import { invalidateDiscoveryCache } from './discovery-client'
+import { beginAuthorization, completeAuthorization } from './keycloak-auth'
+import { getSession, readSession, SESSION_MAX_AGE } from './session'
+
+beforeAll(() => {
+  installMockIdp()
+  // Brokers the mock provider is configured with, as a Keycloak realm could be
+  vi.stubEnv('IDP_MOCK_BROKERS', 'google,keycloakOidc')
+})
+
+beforeEach(() => {
+  clearCookies()
+  vi.useFakeTimers({ toFake: ['Date'] })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+  invalidateDiscoveryCache()
+})
+
+// Has the provider's discovery document say what `changes` say
+function advertise(changes: Record<string, unknown>) {
+  const fetchFromProvider = globalThis.fetch
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const response = await fetchFromProvider(input, init)
+    if (!String(input).endsWith('/.well-known/openid-configuration')) {
+      return response
+    }
+    return Response.json({ ...(await response.json()), ...changes })
+  })
+  invalidateDiscoveryCache()
+}
+
+async function completeSignIn(callback: URLSearchParams) {
+  return completeAuthorization({ data: { code: callback.get('code')!, state: callback.get('state')! } })
+}
+
+describe('authorization code flow', () => {
+  it('signs in through the provider and comes back to the requested page', async () => {
+    const { authorizationUrl } = await beginAuthorization({
+      data: { providerId: 'mock', returnTo: '/demo/start/server-funcs' },
+    })
+
+    const request = new URL(authorizationUrl).searchParams
+    expect(request.get('response_type')).toBe('code')
+    expect(request.get('code_challenge_method')).toBe('S256')
+    expect(request.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(request.get('redirect_uri')).toBe('http://localhost:3000/demo/start/auth/callback')
+
+    const callback = await signInAt(authorizationUrl)
+    const result = await completeAuthorization({
+      data: {
+        code: callback.get('code')!,
+        state: callback.get('state')!,
+        sessionState: callback.get('session_state')!,
+      },
+    })
+
+    expect(result.isAuthenticated).toBe(true)
+    expect(result.user?.preferred_username).toBe('alice')
+    expect(result.user?.roles?.realm).toContain('admin')
+    expect(result.returnTo).toBe('/demo/start/server-funcs')
+
+    const session = await readSession()
+    expect(session?.data.providerId).toBe('mock')
+    expect(session?.data.sessionState).toBe(callback.get('session_state'))
+    expect(session?.data.idpSessionId).toBe(callback.get('session_state'))
+    expect(await getSession()).toMatchObject({ isAuthenticated: true })
+  })
+
+  it('refuses a callback whose state does not match the request', async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock' } })
+    const callback = await signInAt(authorizationUrl)
+
+    await expect(
+      completeAuthorization({ data: { code: callback.get('code')!, state: 'forged' } })
+    ).rejects.toThrow('state does not match')
+    expect(await readSession()).toBeNull()
+  })
+
+  it('redeems a callback only once', async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock' } })
+    const callback = await signInAt(authorizationUrl)
+    const data = { code: callback.get('code')!, state: callback.get('state')! }
+
+    await completeAuthorization({ data })
+    await expect(completeAuthorization({ data })).rejects.toThrow('No pending authorization request')
+  })
+
+  it('refuses a callback from another browser', async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock' } })
+    const callback = await signInAt(authorizationUrl)
+    clearCookies()
+
+    await expect(
+      completeAuthorization({ data: { code: callback.get('code')!, state: callback.get('state')! } })
+    ).rejects.toThrow('No pending authorization request')
+  })
+
+  it('keeps redirects after sign in on this site', async () => {
+    for (const returnTo of ['https://evil.example/', '//evil.example/', '/\\evil.example/']) {
+      const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock', returnTo } })
+      const callback = await signInAt(authorizationUrl)
+      const result = await completeAuthorization({
+        data: { code: callback.get('code')!, state: callback.get('state')! },
+      })
+      expect(result.returnTo).toBeUndefined()
+    }
+  })
+
+  it('gives a new sign in a session cookie of its own, good for the full session lifetime', async () => {
+    await signIn('alice')
+    const first = await readSession()
+
+    vi.advanceTimersByTime(60 * 60 * 1000)
+    await signIn('bob')
+
+    expect((await readSession())?.id).not.toBe(first?.id)
+    expect(getCookieExpiry('kc_session')).toBe(Date.now() + SESSION_MAX_AGE * 1000)
+  })
+
+  it('rejects a wrong password on the login form', async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock' } })
+    await expect(signInAt(authorizationUrl, 'alice', 'wrong')).rejects.toThrow('Sign in failed (401)')
+  })
+})
+
+describe('pushed authorization requests', () => {
+  it('pushes the request when asked, leaving only the request_uri in the URL', async () => {
+    const { authorizationUrl } = await beginAuthorization({
+      data: { providerId: 'mock', pushedAuthorization: true, loginHint: 'alice' },
+    })
+
+    const request = new URL(authorizationUrl).searchParams
+    expect([...request.keys()]).toEqual(['client_id', 'request_uri'])
+    expect(request.get('request_uri')).toMatch(/^urn:ietf:params:oauth:request_uri:/)
+
+    const result = await completeSignIn(await signInAt(authorizationUrl, 'alice'))
+    expect(result.user?.preferred_username).toBe('alice')
+  })
+
+  it('pushes every request to a provider that requires it', async () => {
+    advertise({ require_pushed_authorization_requests: true })
+    const { authorizationUrl } = await beginAuthorization({
+      data: { providerId: 'mock', pushedAuthorization: false },
+    })
+
+    expect(new URL(authorizationUrl).searchParams.has('request_uri')).toBe(true)
+    expect((await completeSignIn(await signInAt(authorizationUrl, 'bob'))).isAuthenticated).toBe(true)
+  })
+
+  it('refuses to push to a provider without a PAR endpoint', async () => {
+    advertise({ pushed_authorization_request_endpoint: undefined })
+
+    await expect(beginAuthorization({ data: { providerId: 'mock', pushedAuthorization: true } })).rejects.toThrow(
+      'does not support pushed authorization requests'
+    )
+  })
+
+  it('signs in once per pushed request', async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock', pushedAuthorization: true } })
+    await signInAt(authorizationUrl, 'alice')
+
+    await expect(signInAt(authorizationUrl, 'alice')).rejects.toThrow('Sign in failed (400)')
+  })
+})
+
+describe('brokered login', () => {
+  it("sends the user straight to the broker's login with kc_idp_hint", async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock', idpHint: 'keycloakOidc' } })
+
+    expect(new URL(authorizationUrl).searchParams.get('kc_idp_hint')).toBe('keycloak-oidc')
+    expect((await completeSignIn(await signInAt(authorizationUrl, 'bob'))).isAuthenticated).toBe(true)
+  })
+
+  it('carries the hint inside a pushed request', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    const { authorizationUrl } = await beginAuthorization({
+      data: { providerId: 'mock', idpHint: 'google', pushedAuthorization: true },
+    })
+
+    const [, pushed] = fetchSpy.mock.calls.find(([url]) => String(url).endsWith('/ext/par/request'))!
+    expect(new URLSearchParams(pushed?.body as URLSearchParams).get('kc_idp_hint')).toBe('google')
+    expect(new URL(authorizationUrl).searchParams.has('kc_idp_hint')).toBe(false)
+    expect((await completeSignIn(await signInAt(authorizationUrl, 'bob'))).isAuthenticated).toBe(true)
+  })
+
+  it('offers only the brokers the provider is configured with', async () => {
+    await expect(beginAuthorization({ data: { providerId: 'mock', idpHint: 'github' } })).rejects.toThrow(
+      'Provider "mock" has no "github" broker'
+    )
+  })
+
+  it('refuses brokers it does not know', async () => {
+    // What a caller other than the login page could send
+    const data = { providerId: 'mock', idpHint: 'myspace' } as unknown as Parameters<
+      typeof beginAuthorization
+    >[0]['data']
+
+    await expect(beginAuthorization({ data })).rejects.toMatchObject({
+      fieldErrors: { idpHint: ['Unknown identity provider broker'] },
+    })
+  })
+})
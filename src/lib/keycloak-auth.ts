@@ -0,0 +1,307 @@
+/**
+ * Keycloak Authorization Code + PKCE login
+ * Server functions that start the authorization request and redeem the code
+ *
+ * The pending request (state, nonce, code verifier) is kept in a short-lived
+ * cookie sealed with SESSION_SECRET until the callback consumes it, so the
+ * browser can neither read nor forge it. Redeemed tokens go straight into the
+ * server-side session. Logins always use the provider's configured client.
+ *
+ * Authorization parameters are pushed to the provider (PAR) when the realm
+ * requires it, the provider is configured for it or the caller asks for it.
+ * Social login is the same flow with a `kc_idp_hint` naming one of the
+ * realm's configured brokers.
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getRequestUrl, useSession } from '@tanstack/react-start/server'
+import { z } from 'zod'
+import { IDP_BROKER_ENDPOINTS, type IdpBroker } from './keycloak-discovery'
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+import { getDiscoveryMetadata } from './discovery-client'
+import { clientCredentials, getProvider, type IdentityProviderConfig } from './idp-registry'
+import {
+  buildAuthorizationParams,
+  buildAuthorizationUrl,
+  buildPushedAuthorizationUrl,
+  createAuthorizationRequest,
+  type AuthorizationRequest,
+  type AuthorizationUrlOptions,
+} from './keycloak-pkce'
+import { optionalText, requiredText, validateInput } from './input-validation'
+import { verifyJwt, type TokenVerificationErrorCode } from './jwt-verify'
+import { getProviderAdapter } from './provider-adapters'
+import { createSession, sealedCookieConfig, toSessionView } from './session'
+
+export const CALLBACK_PATH = '/demo/start/auth/callback'
+
+const AUTH_REQUEST_COOKIE = 'kc_auth_request'
+const AUTH_REQUEST_MAX_AGE = 10 * 60
+
+export interface TokenResponse {
+  access_token: string
+  token_type: string
+  expires_in: number
+  refresh_token?: string
+  refresh_expires_in?: number
+  id_token?: string
+  scope?: string
+  session_state?: string
+}
+
+// Server function to start the authorization code flow
+export const beginAuthorization = createServerFn({ method: 'POST' })
+  .inputValidator(
+    validateInput(
+      z.object({
+        providerId: optionalText('Provider', 64),
+        loginHint: optionalText('Username', 255),
+        returnTo: optionalText('Return path', 2048),
+        pushedAuthorization: z.boolean().optional(),
+        idpHint: z
+          .enum(Object.keys(IDP_BROKER_ENDPOINTS) as [IdpBroker, ...IdpBroker[]], {
+            errorMap: () => ({ message: 'Unknown identity provider broker' }),
+          })
+          .optional(),
+      })
+    )
+  )
+  .handler(async ({ data }) => {
+    const provider = getProvider(data.providerId)
+    if (data.idpHint && !provider.brokers.includes(data.idpHint)) {
+      throw new Error(`Provider "${provider.id}" has no "${data.idpHint}" broker`)
+    }
+
+    const metadata = await getDiscoveryMetadata(provider)
+    const request = createAuthorizationRequest({
+      providerId: provider.id,
+      clientId: provider.clientId,
+      redirectUri: new URL(CALLBACK_PATH, getRequestUrl()).toString(),
+      returnTo: safeRedirectPath(data.returnTo),
+    })
+
+    const cookie = await useAuthRequestCookie()
+    await cookie.update({ request })
+
+    const options: AuthorizationUrlOptions = {
+      scope: provider.scopes.join(' '),
+      loginHint: data.loginHint,
+      idpHint: data.idpHint && IDP_BROKER_ENDPOINTS[data.idpHint],
+    }
+    const pushed =
+      metadata.require_pushed_authorization_requests ||
+      (data.pushedAuthorization ?? provider.pushedAuthorization)
+
+    if (!pushed) {
+      return {
+        authorizationUrl: await buildAuthorizationUrl(metadata.authorization_endpoint, request, options),
+      }
+    }
+
+    if (!metadata.pushed_authorization_request_endpoint) {
+      throw new Error(`Provider "${provider.id}" does not support pushed authorization requests`)
+    }
+
+    const requestUri = await pushAuthorizationRequest(
+      metadata.pushed_authorization_request_endpoint,
+      provider,
+      request,
+      options
+    )
+
+    return {
+      authorizationUrl: buildPushedAuthorizationUrl(
+        metadata.authorization_endpoint,
+        request.clientId,
+        requestUri
+      ),
+    }
+  })
+
+// Sends the authorization parameters to the PAR endpoint, returns the request_uri
+async function pushAuthorizationRequest(
+  endpoint: string,
+  provider: IdentityProviderConfig,
+  request: AuthorizationRequest,
+  options: AuthorizationUrlOptions
+): Promise<string> {
+  const params = await buildAuthorizationParams(request, options)
+  for (const [name, value] of Object.entries(clientCredentials(provider, request.clientId))) {
+    params.set(name, value)
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params,
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(
+      errorData.error_description ||
+      errorData.error ||
+      `Pushed authorization request failed (${response.status})`
+    )
+  }
+
+  const { request_uri: requestUri }: { request_uri: string; expires_in: number } = await response.json()
+  return requestUri
+}
+
+// Server function to redeem the authorization code at the token endpoint
+export const completeAuthorization = createServerFn({ method: 'POST' })
+  .inputValidator(
+    validateInput(
+      z.object({
+        code: requiredText('Authorization code', 4096),
+        state: requiredText('State', 512),
+        sessionState: optionalText('Session state', 512),
+      })
+    )
+  )
+  .handler(async ({ data }) => {
+    const cookie = await useAuthRequestCookie()
+    const request = parseAuthorizationRequest(cookie.data.request)
+    await cookie.clear()
+
+    if (!request) {
+      throw new Error('No pending authorization request, please sign in again')
+    }
+
+    if (request.state !== data.state) {
+      throw new Error('Authorization response state does not match the request')
+    }
+
+    const provider = getProvider(request.providerId)
+    const metadata = await getDiscoveryMetadata(provider)
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: data.code,
+        redirect_uri: request.redirectUri,
+        ...clientCredentials(provider, request.clientId),
+        code_verifier: request.codeVerifier,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(
+        errorData.error_description ||
+        errorData.error ||
+        `Code exchange failed (${response.status})`
+      )
+    }
+
+    const tokens: TokenResponse = await response.json()
+    await verifyTokenResponse(tokens, {
+      metadata,
+      clientId: request.clientId,
+      nonce: request.nonce,
+      jwtAccessToken: getProviderAdapter(provider.type).jwtAccessTokens,
+    })
+
+    return {
+      ...toSessionView(await createSession(provider.id, request.clientId, tokens, data.sessionState ?? null)),
+      returnTo: request.returnTo,
+    }
+  })
+
+/**
+ * A token from the token endpoint that failed verification
+ */
+export class TokenRejectedError extends Error {
+  readonly code: TokenVerificationErrorCode
+
+  constructor(code: TokenVerificationErrorCode, message: string) {
+    super(message)
+    this.name = 'TokenRejectedError'
+    this.code = code
+  }
+}
+
+export function isTokenRejectedError(error: unknown): error is TokenRejectedError {
+  return error instanceof Error && error.name === 'TokenRejectedError' && 'code' in error
+}
+
+/**
+ * Verifies the tokens returned by the token endpoint before they enter a session
+ *
+ * The ID token must be addressed to the client and, on login, carry the nonce
+ * of the authorization request. The access token must have been issued to it,
+ * unless the provider's access tokens may be opaque (`jwtAccessToken: false`).
+ */
+export async function verifyTokenResponse(
+  tokens: TokenResponse,
+  options: {
+    metadata: OidcDiscoveryMetadata
+    clientId: string
+    nonce?: string
+    jwtAccessToken?: boolean
+  }
+): Promise<void> {
+  const { metadata, clientId, nonce, jwtAccessToken = true } = options
+
+  if (nonce !== undefined && !tokens.id_token) {
+    throw new Error('Token response does not contain an ID token')
+  }
+
+  if (tokens.id_token) {
+    const idToken = await verifyJwt(tokens.id_token, {
+      metadata,
+      audience: clientId,
+      authorizedParty: clientId,
+    })
+    if (!idToken.valid) {
+      throw new TokenRejectedError(idToken.error.code, `ID token rejected: ${idToken.error.message}`)
+    }
+    if (nonce !== undefined && idToken.claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match the request')
+    }
+  }
+
+  if (!jwtAccessToken) {
+    return
+  }
+
+  const accessToken = await verifyJwt(tokens.access_token, {
+    metadata,
+    authorizedParty: clientId,
+  })
+  if (!accessToken.valid) {
+    throw new TokenRejectedError(accessToken.error.code, `Access token rejected: ${accessToken.error.message}`)
+  }
+}
+
+// Keeps post-login redirects on this site: only same-origin paths are allowed.
+// Browsers read `/\host` like `//host`, so backslashes are refused too.
+function safeRedirectPath(path: string | undefined): string | undefined {
+  return path && path.startsWith('/') && !path.startsWith('//') && !path.includes('\\') ? path : undefined
+}
+
+function useAuthRequestCookie() {
+  return useSession<{ request: unknown }>(sealedCookieConfig(AUTH_REQUEST_COOKIE, AUTH_REQUEST_MAX_AGE))
+}
+
+// The sealed cookie can't be forged, but may predate a change of its shape
+function parseAuthorizationRequest(value: unknown): AuthorizationRequest | null {
+  const result = z
+    .object({
+      state: z.string().min(1),
+      nonce: z.string().min(1),
+      codeVerifier: z.string().min(43),
+      providerId: z.string().min(1),
+      clientId: z.string().min(1),
+      redirectUri: z.string().url(),
+      returnTo: z.string().optional(),
+    })
+    .safeParse(value)
+  return result.success ? result.data : null
+}
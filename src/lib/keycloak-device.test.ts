@@ -0,0 +1,114 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { installMockIdp } from '@/test/mock-idp'
+import { getProvider } from './idp-registry'
+import {
+  beginDeviceAuthorization,
+  cancelDeviceAuthorization,
+  pollDeviceAuthorization,
+} from './keycloak-device'
+import { readSession } from './session'
+
+beforeAll(() => {
+  installMockIdp()
+})
+
+beforeEach(() => {
+  clearCookies()
+  vi.useFakeTimers({ toFake: ['Date'] })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+// What the user does on their phone: open the verification page and answer
+async function verify(verificationUri: string, fields: Record<string, string>) {
+  const response = await fetch(verificationUri, { method: 'POST', body: new URLSearchParams(fields) })
+  return response.status
+}
+
+describe('device authorization grant', () => {
+  it('signs the device in once the user approves the code', async () => {
+    const device = await beginDeviceAuthorization({ data: { providerId: 'mock' } })
+    expect(device.userCode).toMatch(/^[A-Z]{4}-[A-Z]{4}$/)
+    expect(device.verificationUriComplete).toContain(encodeURIComponent(device.userCode))
+    expect(device.qrCode).toContain('<svg')
+
+    const poll = () => pollDeviceAuthorization({ data: { requestId: device.requestId } })
+
+    // Before the interval is up the provider is not asked at all
+    expect(await poll()).toEqual({ status: 'pending', interval: device.interval })
+
+    vi.advanceTimersByTime(device.interval * 1000)
+    expect(await poll()).toEqual({ status: 'pending', interval: device.interval })
+
+    expect(
+      await verify(device.verificationUri, { user_code: device.userCode, username: 'bob', password: 'bob' })
+    ).toBe(200)
+
+    vi.advanceTimersByTime(device.interval * 1000)
+    const result = await poll()
+    expect(result.status).toBe('complete')
+    expect(result.status === 'complete' && result.session.user?.preferred_username).toBe('bob')
+    expect((await readSession())?.data.user.preferred_username).toBe('bob')
+
+    // The device code is used up
+    expect((await poll()).status).toBe('expired')
+  })
+
+  it('reports a request the user denied', async () => {
+    const device = await beginDeviceAuthorization({ data: { providerId: 'mock' } })
+    await verify(device.verificationUri, { user_code: device.userCode, action: 'deny' })
+
+    vi.advanceTimersByTime(device.interval * 1000)
+    expect(await pollDeviceAuthorization({ data: { requestId: device.requestId } })).toMatchObject({
+      status: 'denied',
+    })
+    expect(await readSession()).toBeNull()
+  })
+
+  it('reports an expired device code', async () => {
+    const device = await beginDeviceAuthorization({ data: { providerId: 'mock' } })
+    vi.setSystemTime(device.expiresAt)
+
+    expect(await pollDeviceAuthorization({ data: { requestId: device.requestId } })).toMatchObject({
+      status: 'expired',
+    })
+  })
+
+  it('polls from any client holding the request id, and no other', async () => {
+    const device = await beginDeviceAuthorization({ data: { providerId: 'mock' } })
+    await verify(device.verificationUri, { user_code: device.userCode, username: 'alice', password: 'alice' })
+
+    // Another cookie jar: a CLI or a TV app rather than the browser that asked
+    clearCookies()
+    vi.advanceTimersByTime(device.interval * 1000)
+    expect(await pollDeviceAuthorization({ data: { requestId: 'unknown-request' } })).toMatchObject({
+      status: 'expired',
+    })
+    expect(await pollDeviceAuthorization({ data: { requestId: device.requestId } })).toMatchObject({
+      status: 'complete',
+    })
+  })
+
+  it('asks for codes as the configured client, whatever the browser sends', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    const data = { providerId: 'mock', clientId: 'other-client' } as { providerId: string }
+    await beginDeviceAuthorization({ data })
+
+    const [, init] = fetchSpy.mock.calls.find(([input]) => String(input).endsWith('/auth/device'))!
+    expect(new URLSearchParams(init?.body as URLSearchParams).get('client_id')).toBe(getProvider('mock').clientId)
+    fetchSpy.mockRestore()
+  })
+
+  it('forgets a cancelled request', async () => {
+    const device = await beginDeviceAuthorization({ data: { providerId: 'mock' } })
+    await cancelDeviceAuthorization({ data: { requestId: device.requestId } })
+
+    vi.advanceTimersByTime(device.interval * 1000)
+    expect(await pollDeviceAuthorization({ data: { requestId: device.requestId } })).toMatchObject({
+      status: 'expired',
+    })
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * OAuth 2.0 Device Authorization Grant (RFC 8628)
+ * Server functions for clients that cannot follow a browser redirect: the user
+ * approves the request on another device while the server polls for tokens
+ *
+ * The device code never leaves the server: it is kept in the session store
+ * under a random request id, which is all the polling client gets. Any client
+ * holding the id can poll, a browser tab as well as a CLI or a TV app. Polls
+ * closer together than the provider's interval never reach the token
+ * endpoint, and `slow_down` widens the interval for later polls.
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import QRCode from 'qrcode'
+import { z } from 'zod'
+import { getDiscoveryMetadata } from './discovery-client'
+import { clientCredentials, getProvider } from './idp-registry'
+import { optionalText, requiredText, validateInput } from './input-validation'
+import { verifyTokenResponse, type TokenResponse } from './keycloak-auth'
+import { generateRandomString } from './keycloak-pkce'
+import { getProviderAdapter } from './provider-adapters'
+import { createSession, toSessionView, type SessionView } from './session'
+import { createSessionStore, type SessionStore } from './session-store'
+
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code'
+
+// RFC 8628 §3.2 default polling interval, and the §3.5 slow_down increment (seconds)
+const DEFAULT_INTERVAL = 5
+const SLOW_DOWN_INCREMENT = 5
+
+interface DeviceAuthorizationResponse {
+  device_code: string
+  user_code: string
+  verification_uri: string
+  verification_uri_complete?: string
+  expires_in: number
+  interval?: number
+}
+
+interface DeviceRequest {
+  providerId: string
+  deviceCode: string
+  // Seconds between two polls of the token endpoint
+  interval: number
+  nextPollAt: number
+  expiresAt: number
+}
+
+export type DevicePollResult =
+  | { status: 'pending'; interval: number }
+  | { status: 'complete'; session: SessionView }
+  | { status: 'expired' | 'denied'; message: string }
+
+let deviceRequestStore: SessionStore<DeviceRequest> | null = null
+
+const getDeviceRequestStore = createServerOnlyFn(() => {
+  deviceRequestStore ??= createSessionStore<DeviceRequest>({ namespace: 'device' })
+  return deviceRequestStore
+})
+
+async function saveDeviceRequest(id: string, request: DeviceRequest) {
+  const ttlSeconds = Math.max(Math.ceil((request.expiresAt - Date.now()) / 1000), 0)
+  await getDeviceRequestStore().set(id, request, ttlSeconds)
+}
+
+function readDeviceRequest(id: string): Promise<DeviceRequest | null> {
+  return getDeviceRequestStore().get(id)
+}
+
+async function clearDeviceRequest(id: string) {
+  await getDeviceRequestStore().delete(id)
+}
+
+// Request ids are random base64url strings, see `generateRandomString`
+function requestIdInput() {
+  return z.object({
+    requestId: requiredText('Request id', 64).regex(/^[A-Za-z0-9_-]+$/, 'Invalid request id'),
+  })
+}
+
+// Server function to request a device and user code
+export const beginDeviceAuthorization = createServerFn({ method: 'POST' })
+  .inputValidator(
+    validateInput(
+      z.object({
+        providerId: optionalText('Provider', 64),
+      })
+    )
+  )
+  .handler(async ({ data }) => {
+    const provider = getProvider(data.providerId)
+    const metadata = await getDiscoveryMetadata(provider)
+
+    if (!metadata.device_authorization_endpoint) {
+      throw new Error(`Provider "${provider.id}" does not support the device authorization grant`)
+    }
+
+    const response = await fetch(metadata.device_authorization_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        ...clientCredentials(provider),
+        scope: provider.scopes.join(' '),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(
+        errorData.error_description ||
+        errorData.error ||
+        `Device authorization failed (${response.status})`
+      )
+    }
+
+    const authorization: DeviceAuthorizationResponse = await response.json()
+    const interval = authorization.interval ?? DEFAULT_INTERVAL
+    const now = Date.now()
+    const expiresAt = now + authorization.expires_in * 1000
+
+    const requestId = generateRandomString()
+    await saveDeviceRequest(requestId, {
+      providerId: provider.id,
+      deviceCode: authorization.device_code,
+      interval,
+      nextPollAt: now + interval * 1000,
+      expiresAt,
+    })
+
+    const verificationUrl = authorization.verification_uri_complete ?? authorization.verification_uri
+
+    return {
+      requestId,
+      userCode: authorization.user_code,
+      verificationUri: authorization.verification_uri,
+      verificationUriComplete: authorization.verification_uri_complete ?? null,
+      qrCode: await QRCode.toString(verificationUrl, { type: 'svg', margin: 1 }),
+      interval,
+      expiresAt,
+    }
+  })
+
+// Server function polling the token endpoint once for the pending device code
+export const pollDeviceAuthorization = createServerFn({ method: 'POST' })
+  .inputValidator(validateInput(requestIdInput()))
+  .handler(async ({ data: { requestId } }): Promise<DevicePollResult> => {
+    const request = await readDeviceRequest(requestId)
+    if (!request || request.expiresAt <= Date.now()) {
+      await clearDeviceRequest(requestId)
+      return { status: 'expired', message: 'The device code has expired, please start again' }
+    }
+
+    // Too early: answer without spending one of the provider's polls
+    if (Date.now() < request.nextPollAt) {
+      return { status: 'pending', interval: request.interval }
+    }
+
+    const provider = getProvider(request.providerId)
+    const metadata = await getDiscoveryMetadata(provider)
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: DEVICE_GRANT_TYPE,
+        device_code: request.deviceCode,
+        ...clientCredentials(provider),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+
+      switch (errorData.error) {
+        case 'authorization_pending':
+        case 'slow_down': {
+          const interval =
+            errorData.error === 'slow_down' ? request.interval + SLOW_DOWN_INCREMENT : request.interval
+          await saveDeviceRequest(requestId, { ...request, interval, nextPollAt: Date.now() + interval * 1000 })
+          return { status: 'pending', interval }
+        }
+        case 'expired_token':
+          await clearDeviceRequest(requestId)
+          return { status: 'expired', message: 'The device code has expired, please start again' }
+        case 'access_denied':
+          await clearDeviceRequest(requestId)
+          return { status: 'denied', message: 'The request was denied on the verification page' }
+        default:
+          await clearDeviceRequest(requestId)
+          throw new Error(
+            errorData.error_description ||
+            errorData.error ||
+            `Device token request failed (${response.status})`
+          )
+      }
+    }
+
+    await clearDeviceRequest(requestId)
+
+    const tokens: TokenResponse = await response.json()
+    await verifyTokenResponse(tokens, {
+      metadata,
+      clientId: provider.clientId,
+      jwtAccessToken: getProviderAdapter(provider.type).jwtAccessTokens,
+    })
+
+    return {
+      status: 'complete',
+      session: toSessionView(await createSession(provider.id, provider.clientId, tokens)),
+    }
+  })
+
+// Server function abandoning the pending device code
+export const cancelDeviceAuthorization = createServerFn({ method: 'POST' })
+  .inputValidator(validateInput(requestIdInput()))
+  .handler(async ({ data: { requestId } }) => {
+    await clearDeviceRequest(requestId)
+    return { success: true }
+  })
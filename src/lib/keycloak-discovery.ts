@@ -1,73 +1,23 @@
 /**
  * Keycloak OpenID Connect Discovery
- * Fetches metadata from the remote IDP discovery descriptor
- * 
- * Discovery Endpoint: /.well-known/openid-configuration
+ * Keycloak's discovery fields, realm URLs, brokers and capability checks.
+ * Documents are fetched and cached by discovery-client.ts only.
  */
 
-export interface KeycloakDiscoveryMetadata {
-  issuer: string
-  authorization_endpoint: string
-  token_endpoint: string
-  introspection_endpoint: string
-  userinfo_endpoint: string
-  end_session_endpoint: string
-  frontchannel_logout_session_supported: boolean
-  frontchannel_logout_supported: boolean
-  jwks_uri: string
-  check_session_iframe: string
-  grant_types_supported: string[]
-  acr_values_supported: string[]
-  response_types_supported: string[]
-  subject_types_supported: string[]
-  id_token_signing_alg_values_supported: string[]
-  id_token_encryption_alg_values_supported: string[]
-  id_token_encryption_enc_values_supported: string[]
-  userinfo_signing_alg_values_supported: string[]
-  userinfo_encryption_alg_values_supported: string[]
-  userinfo_encryption_enc_values_supported: string[]
-  request_object_signing_alg_values_supported: string[]
-  request_object_encryption_alg_values_supported: string[]
-  request_object_encryption_enc_values_supported: string[]
-  response_modes_supported: string[]
-  registration_endpoint: string
-  token_endpoint_auth_methods_supported: string[]
-  token_endpoint_auth_signing_alg_values_supported: string[]
-  introspection_endpoint_auth_methods_supported: string[]
-  introspection_endpoint_auth_signing_alg_values_supported: string[]
-  authorization_signing_alg_values_supported: string[]
-  authorization_encryption_alg_values_supported: string[]
-  authorization_encryption_enc_values_supported: string[]
-  claims_supported: string[]
-  claim_types_supported: string[]
-  claims_parameter_supported: boolean
-  scopes_supported: string[]
-  request_parameter_supported: boolean
-  request_uri_parameter_supported: boolean
-  require_request_uri_registration: boolean
-  code_challenge_methods_supported: string[]
-  tls_client_certificate_bound_access_tokens: boolean
-  revocation_endpoint: string
-  revocation_endpoint_auth_methods_supported: string[]
-  revocation_endpoint_auth_signing_alg_values_supported: string[]
-  backchannel_logout_supported: boolean
-  backchannel_logout_session_supported: boolean
-  device_authorization_endpoint: string
-  backchannel_token_delivery_modes_supported: string[]
-  backchannel_authentication_endpoint: string
-  backchannel_authentication_request_signing_alg_values_supported: string[]
-  require_pushed_authorization_requests: boolean
-  pushed_authorization_request_endpoint: string
-  mtls_endpoint_aliases: {
-    token_endpoint: string
-    revocation_endpoint: string
-    introspection_endpoint: string
-    device_authorization_endpoint: string
-    registration_endpoint: string
-    userinfo_endpoint: string
-    pushed_authorization_request_endpoint: string
-    backchannel_authentication_endpoint: string
-  }
+import type { OidcDiscoveryMetadata } from './oidc-discovery'
+
+/**
+ * Discovery document as published by Keycloak
+ * The standard metadata plus the extension specs Keycloak implements and
+ * Authentik or Dex don't: CIBA and JARM
+ */
+export interface KeycloakDiscoveryMetadata extends OidcDiscoveryMetadata {
+  backchannel_token_delivery_modes_supported?: string[]
+  backchannel_authentication_endpoint?: string
+  backchannel_authentication_request_signing_alg_values_supported?: string[]
+  authorization_signing_alg_values_supported?: string[]
+  authorization_encryption_alg_values_supported?: string[]
+  authorization_encryption_enc_values_supported?: string[]
 }
 
 export interface KeycloakConfig {
@@ -75,68 +25,17 @@ export interface KeycloakConfig {
   realm: string
 }
 
-export interface DiscoveryResult {
-  metadata: KeycloakDiscoveryMetadata | null
-  error: string | null
-  loading: boolean
-}
-
 /**
- * Builds the discovery endpoint URL for a Keycloak realm
+ * Builds the issuer URL of a Keycloak realm
  */
-export function buildDiscoveryUrl(config: KeycloakConfig): string {
+export function buildIssuerUrl(config: KeycloakConfig): string {
   const { baseUrl, realm } = config
-  return `${baseUrl}/realms/${realm}/.well-known/openid-configuration`
-}
-
-/**
- * Fetches the OpenID Connect discovery metadata from Keycloak
- */
-export async function fetchDiscoveryMetadata(
-  config: KeycloakConfig
-): Promise<KeycloakDiscoveryMetadata> {
-  const discoveryUrl = buildDiscoveryUrl(config)
-  
-  const response = await fetch(discoveryUrl, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-    },
-  })
-
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch discovery metadata: ${response.status} ${response.statusText}`
-    )
-  }
-
-  return response.json()
-}
-
-/**
- * Fetches discovery metadata from a custom URL
- */
-export async function fetchDiscoveryFromUrl(
-  discoveryUrl: string
-): Promise<KeycloakDiscoveryMetadata> {
-  const response = await fetch(discoveryUrl, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-    },
-  })
-
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch discovery metadata: ${response.status} ${response.statusText}`
-    )
-  }
-
-  return response.json()
+  return `${baseUrl}/realms/${realm}`
 }
 
 /**
  * Pre-configured Keycloak instances
+ * Built-in defaults of the provider registry (see idp-registry.ts)
  */
 export const KEYCLOAK_CONFIGS = {
   master: {
@@ -150,18 +49,22 @@ export const KEYCLOAK_CONFIGS = {
 } as const
 
 /**
- * Identity Provider broker endpoints
+ * Identity Provider brokers, by their Keycloak alias
+ * Brokered login goes through the normal authorization request with the
+ * alias as `kc_idp_hint`, so the session comes back through the callback.
  */
 export const IDP_BROKER_ENDPOINTS = {
-  google: 'https://key.basthub.cloud/realms/master/broker/google/endpoint',
-  github: 'https://key.basthub.cloud/realms/master/broker/github/endpoint',
-  keycloakOidc: 'https://key.basthub.cloud/realms/master/broker/keycloak-oidc/endpoint',
+  google: 'google',
+  github: 'github',
+  keycloakOidc: 'keycloak-oidc',
 } as const
 
+export type IdpBroker = keyof typeof IDP_BROKER_ENDPOINTS
+
 /**
  * Get all important endpoints from discovery metadata
  */
-export function extractEndpoints(metadata: KeycloakDiscoveryMetadata) {
+export function extractEndpoints(metadata: OidcDiscoveryMetadata) {
   return {
     authorization: metadata.authorization_endpoint,
     token: metadata.token_endpoint,
@@ -176,45 +79,133 @@ export function extractEndpoints(metadata: KeycloakDiscoveryMetadata) {
   }
 }
 
+export type CapabilitySeverity = 'error' | 'warning' | 'info'
+
+export interface CapabilityFinding {
+  // Discovery field the finding is about
+  field: string
+  severity: CapabilitySeverity
+  message: string
+}
+
+type FieldsOfType<T> = {
+  [K in keyof OidcDiscoveryMetadata]-?: NonNullable<OidcDiscoveryMetadata[K]> extends T ? K : never
+}[keyof OidcDiscoveryMetadata]
+
+export type MetadataEndpoint = Exclude<FieldsOfType<string>, 'issuer'>
+export type MetadataFlag = FieldsOfType<boolean>
+
+/**
+ * Capabilities a client needs from the provider
+ * Lists without a qualifier must be advertised in full; `signingAlgorithms`
+ * and `tokenEndpointAuthMethods` need one advertised value; `forbidden*`
+ * values must not be advertised at all.
+ */
+export interface CapabilityRequirements {
+  grantTypes?: string[]
+  responseTypes?: string[]
+  scopes?: string[]
+  codeChallengeMethods?: string[]
+  signingAlgorithms?: string[]
+  tokenEndpointAuthMethods?: string[]
+  endpoints?: MetadataEndpoint[]
+  // Boolean capabilities that must be advertised as true
+  flags?: MetadataFlag[]
+  forbiddenGrantTypes?: string[]
+  forbiddenResponseTypes?: string[]
+  forbiddenSigningAlgorithms?: string[]
+}
+
 /**
  * Validate if the metadata supports required features
+ *
+ * Every unmet requirement is reported as a finding of the given severity;
+ * `valid` is false only when an error-level finding was reported.
  */
 export function validateMetadataCapabilities(
-  metadata: KeycloakDiscoveryMetadata,
-  requirements: {
-    grantTypes?: string[]
-    responseTypes?: string[]
-    scopes?: string[]
+  metadata: OidcDiscoveryMetadata,
+  requirements: CapabilityRequirements,
+  severity: CapabilitySeverity = 'error'
+): { valid: boolean; missing: string[]; findings: CapabilityFinding[] } {
+  const findings: CapabilityFinding[] = []
+  const report = (field: string, message: string) => findings.push({ field, severity, message })
+
+  // Discovery 1.0 §3 and RFC 8414 §2: defaults of omitted lists
+  const grantTypes = metadata.grant_types_supported ?? ['authorization_code', 'implicit']
+  const authMethods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic']
+
+  const requireAll = (field: string, label: string, advertised: string[] | undefined, values?: string[]) => {
+    for (const value of values ?? []) {
+      if (!advertised?.includes(value)) {
+        report(field, `${label}: ${value}`)
+      }
+    }
   }
-): { valid: boolean; missing: string[] } {
-  const missing: string[] = []
 
-  if (requirements.grantTypes) {
-    for (const grant of requirements.grantTypes) {
-      if (!metadata.grant_types_supported.includes(grant)) {
-        missing.push(`grant_type: ${grant}`)
-      }
+  const requireOne = (field: string, label: string, advertised: string[] | undefined, values?: string[]) => {
+    if (values?.length && !values.some((value) => advertised?.includes(value))) {
+      report(field, `${label}: one of ${values.join(', ')}`)
     }
   }
 
-  if (requirements.responseTypes) {
-    for (const responseType of requirements.responseTypes) {
-      if (!metadata.response_types_supported.includes(responseType)) {
-        missing.push(`response_type: ${responseType}`)
+  const forbid = (field: string, label: string, advertised: string[] | undefined, values?: string[]) => {
+    for (const value of values ?? []) {
+      if (advertised?.includes(value)) {
+        report(field, `${label} should not be offered: ${value}`)
       }
     }
   }
 
-  if (requirements.scopes) {
-    for (const scope of requirements.scopes) {
-      if (!metadata.scopes_supported.includes(scope)) {
-        missing.push(`scope: ${scope}`)
-      }
+  requireAll('grant_types_supported', 'grant_type', grantTypes, requirements.grantTypes)
+  requireAll('response_types_supported', 'response_type', metadata.response_types_supported, requirements.responseTypes)
+  requireAll('scopes_supported', 'scope', metadata.scopes_supported, requirements.scopes)
+  requireAll(
+    'code_challenge_methods_supported',
+    'code_challenge_method',
+    metadata.code_challenge_methods_supported,
+    requirements.codeChallengeMethods
+  )
+  requireOne(
+    'id_token_signing_alg_values_supported',
+    'id_token signing algorithm',
+    metadata.id_token_signing_alg_values_supported,
+    requirements.signingAlgorithms
+  )
+  requireOne(
+    'token_endpoint_auth_methods_supported',
+    'token endpoint auth method',
+    authMethods,
+    requirements.tokenEndpointAuthMethods
+  )
+
+  for (const endpoint of requirements.endpoints ?? []) {
+    if (!metadata[endpoint]) {
+      report(endpoint, `endpoint: ${endpoint}`)
+    }
+  }
+  for (const flag of requirements.flags ?? []) {
+    if (metadata[flag] !== true) {
+      report(flag, `capability: ${flag}`)
     }
   }
 
+  forbid('grant_types_supported', 'grant_type', grantTypes, requirements.forbiddenGrantTypes)
+  forbid(
+    'response_types_supported',
+    'response_type',
+    metadata.response_types_supported,
+    requirements.forbiddenResponseTypes
+  )
+  forbid(
+    'id_token_signing_alg_values_supported',
+    'id_token signing algorithm',
+    metadata.id_token_signing_alg_values_supported,
+    requirements.forbiddenSigningAlgorithms
+  )
+
   return {
-    valid: missing.length === 0,
-    missing,
+    valid: !findings.some((finding) => finding.severity === 'error'),
+    missing: findings.map((finding) => finding.message),
+    findings,
   }
 }
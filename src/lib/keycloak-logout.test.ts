@@ -0,0 +1,152 @@
+import { beforeAll, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { APP_ORIGIN, BACKCHANNEL_LOGOUT_URL, installMockIdp, signIn } from '@/test/mock-idp'
+import { getProvider } from './idp-registry'
+import { decodeJwt } from './jwt'
+import { handleBackchannelLogout } from './keycloak-logout'
+import type { MockOidcProvider } from './mock-oidc-provider'
+import { createSession, readSession } from './session'
+
+const OIDC = `${APP_ORIGIN}/mock-idp/realms/mock/protocol/openid-connect`
+
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout'
+
+let idp: MockOidcProvider
+let fetchSpy: MockInstance<typeof fetch>
+
+beforeAll(() => {
+  idp = installMockIdp()
+  fetchSpy = vi.spyOn(globalThis, 'fetch')
+})
+
+beforeEach(() => {
+  clearCookies()
+  fetchSpy.mockClear()
+})
+
+// Signs out at the provider, as the user would from another application
+async function endProviderSession(idToken: string) {
+  await fetch(`${OIDC}/logout`, { method: 'POST', body: new URLSearchParams({ id_token_hint: idToken }) })
+}
+
+// Signs in another application of the realm through the password grant
+async function otherAppTokens() {
+  const response = await fetch(`${OIDC}/token`, {
+    method: 'POST',
+    body: new URLSearchParams({
+      grant_type: 'password',
+      client_id: 'other-app',
+      username: 'alice',
+      password: 'alice',
+      scope: 'openid',
+    }),
+  })
+  return response.json()
+}
+
+// A logout token for the user of `idToken`, as the provider would sign it
+async function logoutToken(idToken: string, claims: Record<string, unknown> = {}) {
+  const { iss, sub } = decodeJwt(idToken)
+  const now = Math.floor(Date.now() / 1000)
+  return idp.sign({
+    iss,
+    aud: getProvider('mock').clientId,
+    iat: now,
+    exp: now + 120,
+    jti: crypto.randomUUID(),
+    sub,
+    events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+    ...claims,
+  })
+}
+
+function postLogoutToken(token: string) {
+  return handleBackchannelLogout(
+    new Request(BACKCHANNEL_LOGOUT_URL, { method: 'POST', body: new URLSearchParams({ logout_token: token }) })
+  )
+}
+
+// The logout tokens the provider posted to the app, with the app's answers
+async function deliveredLogoutTokens() {
+  return Promise.all(
+    fetchSpy.mock.calls
+      .map((call, index) => ({ request: new Request(call[0], call[1]), index }))
+      .filter(({ request }) => request.url === BACKCHANNEL_LOGOUT_URL)
+      .map(async ({ request, index }) => ({
+        token: new URLSearchParams(await request.text()).get('logout_token')!,
+        status: (await fetchSpy.mock.results[index].value).status as number,
+      }))
+  )
+}
+
+describe('back-channel logout', () => {
+  it('ends the local session when the user signs out at the provider', async () => {
+    await signIn('alice')
+    const session = (await readSession())!
+
+    await endProviderSession(session.data.idToken!)
+
+    expect(await deliveredLogoutTokens()).toEqual([{ token: expect.any(String), status: 200 }])
+    expect(await readSession()).toBeNull()
+  })
+
+  it('leaves the sessions of other users alone', async () => {
+    await signIn('alice')
+    const alice = (await readSession())!
+    clearCookies()
+    await signIn('bob')
+
+    await endProviderSession(alice.data.idToken!)
+
+    expect((await readSession())?.data.user.preferred_username).toBe('bob')
+  })
+
+  it('refuses a logout token it has seen before', async () => {
+    await signIn('alice')
+    await endProviderSession((await readSession())!.data.idToken!)
+    const [{ token }] = await deliveredLogoutTokens()
+
+    const replay = await postLogoutToken(token)
+    expect(replay.status).toBe(400)
+    expect(await replay.json()).toMatchObject({ error_description: 'Logout token was already used' })
+  })
+
+  it('refuses a logout token without an identifier to tell replays by', async () => {
+    await signIn('alice')
+    const token = await logoutToken((await readSession())!.data.idToken!, { jti: undefined })
+
+    const response = await postLogoutToken(token)
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ error_description: 'Logout token has no identifier (jti)' })
+    expect(await readSession()).not.toBeNull()
+  })
+
+  it("ends only this client's sessions when the token is addressed to other clients too", async () => {
+    // A local session of another client of the realm, for the same user
+    const tokens = await otherAppTokens()
+    await createSession('mock', 'other-app', tokens)
+
+    const response = await postLogoutToken(
+      await logoutToken(tokens.id_token, { aud: [getProvider('mock').clientId, 'other-app'] })
+    )
+    expect(response.status).toBe(200)
+    expect((await readSession())?.data.clientId).toBe('other-app')
+  })
+
+  it('refuses a logout token addressed to another client', async () => {
+    await signIn('alice')
+
+    await endProviderSession((await otherAppTokens()).id_token)
+
+    const [delivered] = await deliveredLogoutTokens()
+    expect(delivered.status).toBe(400)
+    expect(await readSession()).not.toBeNull()
+  })
+
+  it('rejects a request without a logout token', async () => {
+    const response = await handleBackchannelLogout(
+      new Request(BACKCHANNEL_LOGOUT_URL, { method: 'POST', body: new URLSearchParams() })
+    )
+    expect(response.status).toBe(400)
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Logout
+ * RP-initiated logout sends the browser to Keycloak's end_session_endpoint so
+ * the SSO session ends too, not only the local one. Back-channel logout lets
+ * Keycloak end local sessions server to server when the user signs out
+ * elsewhere (OpenID Connect Back-Channel Logout 1.0).
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { getRequestUrl } from '@tanstack/react-start/server'
+import { LOGIN_PATH } from './auth-guard'
+import { getDiscoveryMetadata } from './discovery-client'
+import { getProvider, getProviderRegistry, type IdentityProviderConfig } from './idp-registry'
+import { decodeJwt } from './jwt'
+import { verifyJwt, type TokenClaims } from './jwt-verify'
+import { destroyMatchingSessions, destroySession, readSession } from './session'
+
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout'
+
+// Logout token ids already processed, until their expiry (replay protection)
+const seenLogoutTokens = new Map<string, number>()
+
+export interface LogoutTokenClaims extends TokenClaims {
+  sid?: string
+  events: Record<string, unknown>
+}
+
+// Server function ending the local session and returning Keycloak's logout URL
+export const beginLogout = createServerFn({ method: 'POST' }).handler(async () => {
+  const session = await readSession()
+  await destroySession()
+
+  if (!session) {
+    return { logoutUrl: null }
+  }
+
+  const provider = getProvider(session.data.providerId)
+  const metadata = await getDiscoveryMetadata(provider)
+  if (!metadata.end_session_endpoint) {
+    return { logoutUrl: null }
+  }
+
+  const url = new URL(metadata.end_session_endpoint)
+  url.searchParams.set('client_id', session.data.clientId)
+  url.searchParams.set('post_logout_redirect_uri', new URL(LOGIN_PATH, getRequestUrl()).toString())
+  if (session.data.idToken) {
+    // Skips Keycloak's logout confirmation page
+    url.searchParams.set('id_token_hint', session.data.idToken)
+  }
+
+  return { logoutUrl: url.toString() }
+})
+
+async function findProviderByIssuer(issuer: unknown): Promise<IdentityProviderConfig | null> {
+  if (typeof issuer !== 'string') {
+    return null
+  }
+
+  for (const provider of Object.values(getProviderRegistry().providers)) {
+    const metadata = await getDiscoveryMetadata(provider).catch(() => null)
+    if (metadata?.issuer === issuer) {
+      return provider
+    }
+  }
+  return null
+}
+
+/**
+ * Validates a logout token as required by Back-Channel Logout 1.0 §2.6
+ */
+export const verifyLogoutToken = createServerOnlyFn(
+  async (token: string): Promise<{ provider: IdentityProviderConfig; claims: LogoutTokenClaims }> => {
+    const issuer = decodeJwt(token).iss
+    const provider = await findProviderByIssuer(issuer)
+    if (!provider) {
+      throw new Error(`Unknown logout token issuer "${String(issuer)}"`)
+    }
+
+    // §2.4: the token is addressed to this relying party's client
+    const result = await verifyJwt(token, {
+      metadata: await getDiscoveryMetadata(provider),
+      audience: provider.clientId,
+    })
+    if (!result.valid) {
+      throw new Error(`Logout token rejected: ${result.error.message}`)
+    }
+
+    const claims = result.claims as LogoutTokenClaims
+    if (typeof claims.events !== 'object' || !(BACKCHANNEL_LOGOUT_EVENT in (claims.events ?? {}))) {
+      throw new Error('Logout token does not carry the back-channel logout event')
+    }
+    if (!claims.sid && !claims.sub) {
+      throw new Error('Logout token must identify a session (sid) or a user (sub)')
+    }
+    if ('nonce' in claims) {
+      throw new Error('Logout token must not contain a nonce')
+    }
+    if (typeof claims.iat !== 'number') {
+      throw new Error('Logout token has no issue time')
+    }
+    if (typeof claims.jti !== 'string' || !claims.jti) {
+      throw new Error('Logout token has no identifier (jti)')
+    }
+
+    const now = Date.now()
+    for (const [jti, expiresAt] of seenLogoutTokens) {
+      if (expiresAt <= now) {
+        seenLogoutTokens.delete(jti)
+      }
+    }
+    if (seenLogoutTokens.has(claims.jti)) {
+      throw new Error('Logout token was already used')
+    }
+    seenLogoutTokens.set(claims.jti, claims.exp * 1000)
+
+    return { provider, claims }
+  }
+)
+
+/**
+ * Handles a back-channel logout POST from Keycloak
+ */
+export const handleBackchannelLogout = createServerOnlyFn(async (request: Request): Promise<Response> => {
+  const headers = { 'Cache-Control': 'no-store' }
+
+  const form = await request.formData().catch(() => null)
+  const logoutToken = form?.get('logout_token')
+  if (typeof logoutToken !== 'string') {
+    return Response.json(
+      { error: 'invalid_request', error_description: 'Missing logout_token' },
+      { status: 400, headers }
+    )
+  }
+
+  try {
+    const { provider, claims } = await verifyLogoutToken(logoutToken)
+
+    // Only sessions of this relying party's client, whatever else the token
+    // is addressed to
+    await destroyMatchingSessions({
+      providerId: provider.id,
+      clientIds: [provider.clientId],
+      sid: claims.sid,
+      sub: claims.sid ? undefined : claims.sub,
+    })
+
+    return new Response(null, { status: 200, headers })
+  } catch (error) {
+    return Response.json(
+      {
+        error: 'invalid_request',
+        error_description: error instanceof Error ? error.message : 'Invalid logout token',
+      },
+      { status: 400, headers }
+    )
+  }
+})
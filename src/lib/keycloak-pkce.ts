@@ -0,0 +1,135 @@
+/**
+ * OAuth 2.0 Authorization Code flow with PKCE (RFC 7636)
+ * Builds the authorization request and the one-time secrets bound to it
+ *
+ * Only the S256 code challenge method is supported. Parameters can also be
+ * pushed to the provider first (PAR, RFC 9126), the URL then only carries
+ * the returned request_uri.
+ */
+
+export interface AuthorizationRequest {
+  state: string
+  nonce: string
+  codeVerifier: string
+  // Registry id of the identity provider (see idp-registry.ts)
+  providerId: string
+  clientId: string
+  redirectUri: string
+  // Where to send the user once signed in
+  returnTo?: string
+}
+
+export interface AuthorizationUrlOptions {
+  scope?: string
+  loginHint?: string
+  // Keycloak broker alias: skips the login page for that identity provider
+  idpHint?: string
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Generates a URL-safe random string from `byteLength` random bytes
+ */
+export function generateRandomString(byteLength = 32): string {
+  const bytes = new Uint8Array(byteLength)
+  crypto.getRandomValues(bytes)
+  return base64UrlEncode(bytes)
+}
+
+/**
+ * Derives the S256 code challenge for a code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(codeVerifier)
+  )
+  return base64UrlEncode(new Uint8Array(digest))
+}
+
+/**
+ * Creates a fresh authorization request with its own state, nonce and verifier
+ */
+export function createAuthorizationRequest(params: {
+  providerId: string
+  clientId: string
+  redirectUri: string
+  returnTo?: string
+}): AuthorizationRequest {
+  return {
+    state: generateRandomString(),
+    nonce: generateRandomString(),
+    // 32 bytes encode to 43 characters, the minimum verifier length
+    codeVerifier: generateRandomString(32),
+    providerId: params.providerId,
+    clientId: params.clientId,
+    redirectUri: params.redirectUri,
+    returnTo: params.returnTo,
+  }
+}
+
+/**
+ * Authorization request parameters, sent in the URL or pushed (PAR)
+ */
+export async function buildAuthorizationParams(
+  request: AuthorizationRequest,
+  options: AuthorizationUrlOptions = {}
+): Promise<URLSearchParams> {
+  const params = new URLSearchParams()
+
+  params.set('response_type', 'code')
+  params.set('client_id', request.clientId)
+  params.set('redirect_uri', request.redirectUri)
+  params.set('scope', options.scope ?? 'openid profile email')
+  params.set('state', request.state)
+  params.set('nonce', request.nonce)
+  params.set('code_challenge', await createCodeChallenge(request.codeVerifier))
+  params.set('code_challenge_method', 'S256')
+
+  if (options.loginHint) {
+    params.set('login_hint', options.loginHint)
+  }
+  if (options.idpHint) {
+    params.set('kc_idp_hint', options.idpHint)
+  }
+
+  return params
+}
+
+/**
+ * Builds the URL the browser is sent to in order to authenticate
+ */
+export async function buildAuthorizationUrl(
+  authorizationEndpoint: string,
+  request: AuthorizationRequest,
+  options: AuthorizationUrlOptions = {}
+): Promise<string> {
+  const url = new URL(authorizationEndpoint)
+  for (const [name, value] of await buildAuthorizationParams(request, options)) {
+    url.searchParams.set(name, value)
+  }
+
+  return url.toString()
+}
+
+/**
+ * Builds the authorization URL referencing a pushed request (RFC 9126 §4)
+ */
+export function buildPushedAuthorizationUrl(
+  authorizationEndpoint: string,
+  clientId: string,
+  requestUri: string
+): string {
+  const url = new URL(authorizationEndpoint)
+  url.searchParams.set('client_id', clientId)
+  url.searchParams.set('request_uri', requestUri)
+
+  return url.toString()
+}
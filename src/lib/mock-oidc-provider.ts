@@ -0,0 +1,898 @@
+/**
+ * Mock OpenID Connect provider
+ * An in-process, Keycloak-shaped identity provider for offline development
+ * and tests. It answers under `<basePath>/realms/<realm>/...` with the same
+ * paths Keycloak uses: discovery, JWKS, authorization (a plain login form),
+ * pushed authorization requests, device authorization (approved on `/device`),
+ * token, userinfo, introspection, revocation and logout. Given a
+ * `backchannelLogoutUrl`, ending a session posts a logout token there for
+ * every client it issued tokens to.
+ *
+ * Seeded users (username / password):
+ *   alice / alice  realm roles admin, user
+ *   bob   / bob    realm role user
+ *
+ * Clients are not registered: any client_id is accepted and secrets are not
+ * checked. State lives in memory and keys are generated on start, so every
+ * restart invalidates previously issued tokens. Never expose it in production.
+ */
+
+import { generateRandomString } from './keycloak-pkce'
+
+export interface MockUser {
+  id: string
+  username: string
+  password: string
+  email: string
+  firstName: string
+  lastName: string
+  realmRoles: string[]
+  // Roles per client id, as in Keycloak's resource_access claim
+  clientRoles: Record<string, string[]>
+}
+
+export interface MockOidcProviderOptions {
+  // Path the provider is mounted at, Keycloak's base URL equivalent
+  basePath?: string
+  realm?: string
+  users?: MockUser[]
+  // Lifetimes in seconds
+  accessTokenLifetime?: number
+  refreshTokenLifetime?: number
+  deviceCodeLifetime?: number
+  // Where logout tokens are posted (Back-Channel Logout 1.0), none when unset
+  backchannelLogoutUrl?: string
+}
+
+export interface MockOidcProvider {
+  basePath: string
+  realm: string
+  users: MockUser[]
+  handle(request: Request): Promise<Response>
+  // Signs claims with the provider's key, for tokens its flows never issue
+  sign(claims: Record<string, unknown>): Promise<string>
+}
+
+export const MOCK_USERS: MockUser[] = [
+  {
+    id: '6f1b5a2e-0c2d-4b8e-9a57-1d1c3a9e0a01',
+    username: 'alice',
+    password: 'alice',
+    email: 'alice@example.com',
+    firstName: 'Alice',
+    lastName: 'Martin',
+    realmRoles: ['admin', 'user'],
+    clientRoles: { account: ['manage-account', 'view-profile'] },
+  },
+  {
+    id: '0b7e4c1d-5f3a-4e62-8c19-2e8f6d4b0b02',
+    username: 'bob',
+    password: 'bob',
+    email: 'bob@example.com',
+    firstName: 'Bob',
+    lastName: 'Durand',
+    realmRoles: ['user'],
+    clientRoles: { account: ['view-profile'] },
+  },
+]
+
+interface AuthorizationCode {
+  clientId: string
+  redirectUri: string
+  codeChallenge?: string
+  nonce?: string
+  scope: string
+  sid: string
+  expiresAt: number
+}
+
+interface PushedRequest {
+  params: URLSearchParams
+  expiresAt: number
+}
+
+interface MockSession {
+  sid: string
+  user: MockUser
+  // Clients tokens were issued to, told by back-channel logout
+  clientIds: Set<string>
+}
+
+interface DeviceAuthorization {
+  clientId: string
+  userCode: string
+  scope: string
+  // Seconds clients must wait between two polls
+  interval: number
+  lastPolledAt: number
+  expiresAt: number
+  status: 'pending' | 'denied' | { sid: string }
+}
+
+interface RefreshGrant {
+  sid: string
+  clientId: string
+  scope: string
+  expiresAt: number
+}
+
+const CODE_LIFETIME = 60
+const PUSHED_REQUEST_LIFETIME = 60
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:'
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code'
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout'
+// Without vowels or look-alikes, as RFC 8628 §6.1 suggests
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ'
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)))
+}
+
+function oauthError(error: string, description: string, status = 400): Response {
+  return Response.json({ error, error_description: description }, { status })
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+async function readForm(request: Request): Promise<URLSearchParams> {
+  const body = await request.text()
+  return new URLSearchParams(body)
+}
+
+/**
+ * Client id from the form body or HTTP Basic authentication
+ */
+function readClientId(request: Request, form: URLSearchParams): string | null {
+  const authorization = request.headers.get('Authorization')
+  if (authorization?.startsWith('Basic ')) {
+    return decodeURIComponent(atob(authorization.slice(6)).split(':')[0])
+  }
+  return form.get('client_id')
+}
+
+function generateUserCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  const code = [...bytes].map((byte) => USER_CODE_ALPHABET[byte % USER_CODE_ALPHABET.length]).join('')
+  return `${code.slice(0, 4)}-${code.slice(4)}`
+}
+
+/**
+ * The sign-in form; with a `user_code` parameter it asks for the device's
+ * code too and offers to deny the request
+ */
+function loginPage(params: URLSearchParams, realm: string, error?: string): Response {
+  const device = params.has('user_code')
+  const hidden = [...params]
+    .filter(([name]) => !['username', 'password', 'user_code', 'action'].includes(name))
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n      ')
+
+  const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>Sign in to ${escapeHtml(realm)} (mock)</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #0f172a; display: flex; justify-content: center; padding-top: 10vh; }
+      form { background: white; border-radius: 12px; padding: 32px; width: 320px; display: grid; gap: 12px; }
+      input { padding: 8px; border: 1px solid #cbd5e1; border-radius: 6px; }
+      button { padding: 10px; background: #2563eb; color: white; border: 0; border-radius: 6px; font-weight: 600; }
+      .error { color: #b91c1c; }
+      .hint { color: #64748b; font-size: 12px; }
+    </style>
+  </head>
+  <body>
+    <form method="post">
+      <h1>Mock realm "${escapeHtml(realm)}"</h1>
+      ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+      ${hidden}
+      ${device ? `<input name="user_code" placeholder="Code shown on the device" value="${escapeHtml(params.get('user_code')!)}">` : ''}
+      <input name="username" placeholder="Username" value="${escapeHtml(params.get('login_hint') ?? '')}" autofocus>
+      <input name="password" type="password" placeholder="Password">
+      <button type="submit">Sign In</button>
+      ${device ? '<button type="submit" name="action" value="deny">Deny</button>' : ''}
+      <p class="hint">Try alice / alice (admin) or bob / bob</p>
+    </form>
+  </body>
+</html>`
+
+  return new Response(html, {
+    status: error ? 401 : 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  })
+}
+
+/**
+ * Creates a mock provider with its own signing key and in-memory state
+ */
+export function createMockOidcProvider(options: MockOidcProviderOptions = {}): MockOidcProvider {
+  const basePath = (options.basePath ?? '/mock-idp').replace(/\/+$/, '')
+  const realm = options.realm ?? 'mock'
+  const users = options.users ?? MOCK_USERS
+  const accessTokenLifetime = options.accessTokenLifetime ?? 300
+  const refreshTokenLifetime = options.refreshTokenLifetime ?? 1800
+  const deviceCodeLifetime = options.deviceCodeLifetime ?? 600
+  const { backchannelLogoutUrl } = options
+
+  const codes = new Map<string, AuthorizationCode>()
+  const pushedRequests = new Map<string, PushedRequest>()
+  const deviceAuthorizations = new Map<string, DeviceAuthorization>()
+  const sessions = new Map<string, MockSession>()
+  const refreshGrants = new Map<string, RefreshGrant>()
+  const revokedAccessTokens = new Set<string>()
+
+  const kid = generateRandomString(8)
+  const keyPair = crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  )
+
+  async function sign(claims: Record<string, unknown>): Promise<string> {
+    const { privateKey } = await keyPair
+    const signingInput = `${encodeJson({ alg: 'RS256', typ: 'JWT', kid })}.${encodeJson(claims)}`
+    const signature = await crypto.subtle.sign(
+      'RSASSA-PKCS1-v1_5',
+      privateKey,
+      new TextEncoder().encode(signingInput)
+    )
+    return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`
+  }
+
+  /**
+   * Claims of a token this provider signed and still honours, otherwise null
+   */
+  async function readAccessToken(token: string): Promise<Record<string, unknown> | null> {
+    const segments = token.split('.')
+    if (segments.length !== 3) {
+      return null
+    }
+
+    try {
+      const { publicKey } = await keyPair
+      const valid = await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        publicKey,
+        base64UrlDecode(segments[2]),
+        new TextEncoder().encode(`${segments[0]}.${segments[1]}`)
+      )
+      if (!valid) {
+        return null
+      }
+
+      const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(segments[1])))
+      const active =
+        claims.typ === 'Bearer' &&
+        claims.exp * 1000 > Date.now() &&
+        !revokedAccessTokens.has(claims.jti) &&
+        sessions.has(claims.sid)
+      return active ? claims : null
+    } catch {
+      return null
+    }
+  }
+
+  function userClaims(user: MockUser) {
+    return {
+      sub: user.id,
+      email: user.email,
+      email_verified: true,
+      name: `${user.firstName} ${user.lastName}`,
+      preferred_username: user.username,
+      given_name: user.firstName,
+      family_name: user.lastName,
+    }
+  }
+
+  async function issueTokens(
+    issuer: string,
+    session: MockSession,
+    clientId: string,
+    scope: string,
+    nonce?: string
+  ): Promise<Response> {
+    const now = Math.floor(Date.now() / 1000)
+    const { user, sid } = session
+    session.clientIds.add(clientId)
+
+    const accessToken = await sign({
+      iss: issuer,
+      aud: 'account',
+      azp: clientId,
+      typ: 'Bearer',
+      exp: now + accessTokenLifetime,
+      iat: now,
+      jti: crypto.randomUUID(),
+      sid,
+      session_state: sid,
+      scope,
+      realm_access: { roles: user.realmRoles },
+      resource_access: Object.fromEntries(
+        Object.entries(user.clientRoles).map(([client, roles]) => [client, { roles }])
+      ),
+      ...userClaims(user),
+    })
+
+    const idToken = scope.split(' ').includes('openid')
+      ? await sign({
+          iss: issuer,
+          aud: clientId,
+          azp: clientId,
+          typ: 'ID',
+          exp: now + accessTokenLifetime,
+          iat: now,
+          auth_time: now,
+          jti: crypto.randomUUID(),
+          sid,
+          session_state: sid,
+          ...(nonce ? { nonce } : {}),
+          ...userClaims(user),
+        })
+      : undefined
+
+    const refreshToken = generateRandomString()
+    refreshGrants.set(refreshToken, {
+      sid,
+      clientId,
+      scope,
+      expiresAt: Date.now() + refreshTokenLifetime * 1000,
+    })
+
+    return Response.json(
+      {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: accessTokenLifetime,
+        refresh_token: refreshToken,
+        refresh_expires_in: refreshTokenLifetime,
+        ...(idToken ? { id_token: idToken } : {}),
+        scope,
+        session_state: sid,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  }
+
+  function startSession(user: MockUser): MockSession {
+    const session = { sid: crypto.randomUUID(), user, clientIds: new Set<string>() }
+    sessions.set(session.sid, session)
+    return session
+  }
+
+  async function endSession(issuer: string, sid: string) {
+    const session = sessions.get(sid)
+    sessions.delete(sid)
+    for (const [token, grant] of refreshGrants) {
+      if (grant.sid === sid) {
+        refreshGrants.delete(token)
+      }
+    }
+
+    if (session && backchannelLogoutUrl) {
+      await Promise.all([...session.clientIds].map((clientId) => sendLogoutToken(issuer, session, clientId)))
+    }
+  }
+
+  // Back-Channel Logout 1.0 §2.4; the client's answer does not matter to the provider
+  async function sendLogoutToken(issuer: string, session: MockSession, clientId: string) {
+    const now = Math.floor(Date.now() / 1000)
+    const logoutToken = await sign({
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + 120,
+      jti: crypto.randomUUID(),
+      sub: session.user.id,
+      sid: session.sid,
+      events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+    })
+
+    await fetch(backchannelLogoutUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ logout_token: logoutToken }),
+    }).catch(() => null)
+  }
+
+  function discovery(issuer: string) {
+    const oidc = `${issuer}/protocol/openid-connect`
+    return {
+      issuer,
+      authorization_endpoint: `${oidc}/auth`,
+      token_endpoint: `${oidc}/token`,
+      device_authorization_endpoint: `${oidc}/auth/device`,
+      introspection_endpoint: `${oidc}/token/introspect`,
+      userinfo_endpoint: `${oidc}/userinfo`,
+      end_session_endpoint: `${oidc}/logout`,
+      revocation_endpoint: `${oidc}/revoke`,
+      jwks_uri: `${oidc}/certs`,
+      frontchannel_logout_session_supported: false,
+      frontchannel_logout_supported: false,
+      backchannel_logout_supported: backchannelLogoutUrl !== undefined,
+      backchannel_logout_session_supported: backchannelLogoutUrl !== undefined,
+      grant_types_supported: ['authorization_code', 'refresh_token', 'password', DEVICE_GRANT_TYPE],
+      acr_values_supported: ['0', '1'],
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      userinfo_signing_alg_values_supported: ['none'],
+      request_object_signing_alg_values_supported: ['none'],
+      response_modes_supported: ['query'],
+      registration_endpoint: `${issuer}/clients-registrations/openid-connect`,
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      token_endpoint_auth_signing_alg_values_supported: ['RS256'],
+      introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      introspection_endpoint_auth_signing_alg_values_supported: ['RS256'],
+      authorization_signing_alg_values_supported: ['RS256'],
+      claims_supported: [
+        'aud', 'sub', 'iss', 'auth_time', 'name', 'given_name', 'family_name',
+        'preferred_username', 'email', 'email_verified', 'acr',
+      ],
+      claim_types_supported: ['normal'],
+      claims_parameter_supported: false,
+      scopes_supported: ['openid', 'profile', 'email', 'roles', 'offline_access'],
+      request_parameter_supported: false,
+      request_uri_parameter_supported: false,
+      require_request_uri_registration: false,
+      code_challenge_methods_supported: ['S256'],
+      tls_client_certificate_bound_access_tokens: false,
+      revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      revocation_endpoint_auth_signing_alg_values_supported: ['RS256'],
+      pushed_authorization_request_endpoint: `${oidc}/ext/par/request`,
+      require_pushed_authorization_requests: false,
+    }
+  }
+
+  // RFC 9126 §2: the parameters are stored and stand behind a request_uri
+  async function pushAuthorizationRequest(request: Request): Promise<Response> {
+    const form = await readForm(request)
+    const clientId = readClientId(request, form)
+    if (!clientId) {
+      return oauthError('invalid_client', 'Missing client_id', 401)
+    }
+    if (form.has('request_uri')) {
+      return oauthError('invalid_request', 'request_uri is not allowed in a pushed authorization request')
+    }
+
+    form.set('client_id', clientId)
+    form.delete('client_secret')
+    const requestUri = `${REQUEST_URI_PREFIX}${generateRandomString()}`
+    pushedRequests.set(requestUri, { params: form, expiresAt: Date.now() + PUSHED_REQUEST_LIFETIME * 1000 })
+
+    return Response.json({ request_uri: requestUri, expires_in: PUSHED_REQUEST_LIFETIME }, { status: 201 })
+  }
+
+  // The pushed parameters a request_uri stands for, with the login form's fields
+  function resolvePushedRequest(params: URLSearchParams): URLSearchParams | Response {
+    const requestUri = params.get('request_uri')
+    if (!requestUri) {
+      return params
+    }
+
+    const pushed = pushedRequests.get(requestUri)
+    if (!pushed || pushed.expiresAt <= Date.now() || pushed.params.get('client_id') !== params.get('client_id')) {
+      return oauthError('invalid_request_uri', 'Unknown or expired request_uri')
+    }
+
+    const resolved = new URLSearchParams(params)
+    for (const [name, value] of pushed.params) {
+      resolved.set(name, value)
+    }
+    return resolved
+  }
+
+  async function authorize(request: Request, issuer: string): Promise<Response> {
+    const params = resolvePushedRequest(
+      request.method === 'POST' ? await readForm(request) : new URL(request.url).searchParams
+    )
+    if (params instanceof Response) {
+      return params
+    }
+
+    const clientId = params.get('client_id')
+    const redirectUri = params.get('redirect_uri')
+    if (!clientId || !redirectUri) {
+      return oauthError('invalid_request', 'Missing client_id or redirect_uri')
+    }
+    if (params.get('response_type') !== 'code') {
+      return oauthError('unsupported_response_type', 'Only response_type=code is supported')
+    }
+    if (params.has('code_challenge') && params.get('code_challenge_method') !== 'S256') {
+      return oauthError('invalid_request', 'Only the S256 code challenge method is supported')
+    }
+
+    if (request.method !== 'POST') {
+      return loginPage(params, realm)
+    }
+
+    const user = users.find(
+      (candidate) =>
+        candidate.username === params.get('username') && candidate.password === params.get('password')
+    )
+    if (!user) {
+      return loginPage(params, realm, 'Invalid username or password.')
+    }
+
+    // A request_uri is good for one authorization only
+    pushedRequests.delete(params.get('request_uri') ?? '')
+    const { sid } = startSession(user)
+
+    const code = generateRandomString()
+    codes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge: params.get('code_challenge') ?? undefined,
+      nonce: params.get('nonce') ?? undefined,
+      scope: params.get('scope') ?? 'openid',
+      sid,
+      expiresAt: Date.now() + CODE_LIFETIME * 1000,
+    })
+
+    const location = new URL(redirectUri)
+    location.searchParams.set('code', code)
+    location.searchParams.set('session_state', sid)
+    location.searchParams.set('iss', issuer)
+    if (params.get('state')) {
+      location.searchParams.set('state', params.get('state')!)
+    }
+
+    return new Response(null, { status: 302, headers: { Location: location.toString() } })
+  }
+
+  async function token(request: Request, issuer: string): Promise<Response> {
+    const form = await readForm(request)
+    const clientId = readClientId(request, form)
+    if (!clientId) {
+      return oauthError('invalid_client', 'Missing client_id', 401)
+    }
+
+    switch (form.get('grant_type')) {
+      case 'authorization_code': {
+        const code = codes.get(form.get('code') ?? '')
+        codes.delete(form.get('code') ?? '')
+
+        if (!code || code.expiresAt <= Date.now() || code.clientId !== clientId) {
+          return oauthError('invalid_grant', 'Code not valid')
+        }
+        if (code.redirectUri !== form.get('redirect_uri')) {
+          return oauthError('invalid_grant', 'Incorrect redirect_uri')
+        }
+        if (code.codeChallenge) {
+          const verifier = form.get('code_verifier') ?? ''
+          const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+          if (base64UrlEncode(new Uint8Array(digest)) !== code.codeChallenge) {
+            return oauthError('invalid_grant', 'PKCE verification failed')
+          }
+        }
+
+        const session = sessions.get(code.sid)
+        if (!session) {
+          return oauthError('invalid_grant', 'Session not active')
+        }
+        return issueTokens(issuer, session, clientId, code.scope, code.nonce)
+      }
+
+      case 'refresh_token': {
+        const refreshToken = form.get('refresh_token') ?? ''
+        const grant = refreshGrants.get(refreshToken)
+        // Rotation: a refresh token is good for one use
+        refreshGrants.delete(refreshToken)
+
+        const session = grant && sessions.get(grant.sid)
+        if (!grant || !session || grant.expiresAt <= Date.now() || grant.clientId !== clientId) {
+          return oauthError('invalid_grant', 'Invalid refresh token')
+        }
+        return issueTokens(issuer, session, clientId, grant.scope)
+      }
+
+      case 'password': {
+        const user = users.find(
+          (candidate) =>
+            candidate.username === form.get('username') && candidate.password === form.get('password')
+        )
+        if (!user) {
+          return oauthError('invalid_grant', 'Invalid user credentials', 401)
+        }
+
+        return issueTokens(issuer, startSession(user), clientId, form.get('scope') ?? 'openid')
+      }
+
+      case DEVICE_GRANT_TYPE: {
+        const deviceCode = form.get('device_code') ?? ''
+        const device = deviceAuthorizations.get(deviceCode)
+        if (!device || device.clientId !== clientId) {
+          return oauthError('invalid_grant', 'Invalid device code')
+        }
+        if (device.expiresAt <= Date.now()) {
+          deviceAuthorizations.delete(deviceCode)
+          return oauthError('expired_token', 'Device code expired')
+        }
+        if (device.status === 'denied') {
+          deviceAuthorizations.delete(deviceCode)
+          return oauthError('access_denied', 'The end user denied the authorization request')
+        }
+        if (device.status === 'pending') {
+          const tooSoon = Date.now() < device.lastPolledAt + device.interval * 1000
+          device.lastPolledAt = Date.now()
+          if (tooSoon) {
+            device.interval += 5
+            return oauthError('slow_down', 'Polling too fast')
+          }
+          return oauthError('authorization_pending', 'The authorization request is still pending')
+        }
+
+        deviceAuthorizations.delete(deviceCode)
+        const session = sessions.get(device.status.sid)
+        if (!session) {
+          return oauthError('invalid_grant', 'Session not active')
+        }
+        return issueTokens(issuer, session, clientId, device.scope)
+      }
+
+      default:
+        return oauthError('unsupported_grant_type', `Unsupported grant_type "${form.get('grant_type')}"`)
+    }
+  }
+
+  async function deviceAuthorization(request: Request, issuer: string): Promise<Response> {
+    const form = await readForm(request)
+    const clientId = readClientId(request, form)
+    if (!clientId) {
+      return oauthError('invalid_client', 'Missing client_id', 401)
+    }
+
+    const deviceCode = generateRandomString()
+    const userCode = generateUserCode()
+    const interval = 5
+    deviceAuthorizations.set(deviceCode, {
+      clientId,
+      userCode,
+      scope: form.get('scope') ?? 'openid',
+      interval,
+      lastPolledAt: 0,
+      expiresAt: Date.now() + deviceCodeLifetime * 1000,
+      status: 'pending',
+    })
+
+    const verificationUri = `${issuer}/device`
+    return Response.json({
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: verificationUri,
+      verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(userCode)}`,
+      expires_in: deviceCodeLifetime,
+      interval,
+    })
+  }
+
+  // The verification page the user visits on their phone or computer
+  async function verifyDevice(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      const params = new URL(request.url).searchParams
+      return loginPage(new URLSearchParams({ user_code: params.get('user_code') ?? '' }), realm)
+    }
+
+    const form = await readForm(request)
+    const userCode = (form.get('user_code') ?? '').trim().toUpperCase()
+    const device = [...deviceAuthorizations.values()].find(
+      (candidate) => candidate.userCode === userCode && candidate.expiresAt > Date.now()
+    )
+    if (!device || device.status !== 'pending') {
+      return loginPage(form, realm, 'Invalid or expired code.')
+    }
+
+    if (form.get('action') === 'deny') {
+      device.status = 'denied'
+      return new Response('<!doctype html><p>The request was denied.</p>', {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      })
+    }
+
+    const user = users.find(
+      (candidate) =>
+        candidate.username === form.get('username') && candidate.password === form.get('password')
+    )
+    if (!user) {
+      return loginPage(form, realm, 'Invalid username or password.')
+    }
+
+    device.status = { sid: startSession(user).sid }
+    return new Response('<!doctype html><p>Device signed in, you can close this page.</p>', {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    })
+  }
+
+  async function userinfo(request: Request): Promise<Response> {
+    const authorization = request.headers.get('Authorization') ?? ''
+    const claims = authorization.startsWith('Bearer ')
+      ? await readAccessToken(authorization.slice(7))
+      : null
+    const session = claims && sessions.get(claims.sid as string)
+
+    if (!session) {
+      return new Response(null, {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' },
+      })
+    }
+    return Response.json(userClaims(session.user))
+  }
+
+  async function introspect(request: Request): Promise<Response> {
+    const form = await readForm(request)
+    if (!readClientId(request, form)) {
+      return oauthError('invalid_client', 'Missing client_id', 401)
+    }
+
+    const value = form.get('token') ?? ''
+    const grant = refreshGrants.get(value)
+    if (grant && grant.expiresAt > Date.now()) {
+      const session = sessions.get(grant.sid)!
+      return Response.json({
+        active: true,
+        token_type: 'Refresh',
+        client_id: grant.clientId,
+        username: session.user.username,
+        sub: session.user.id,
+        scope: grant.scope,
+        exp: Math.floor(grant.expiresAt / 1000),
+      })
+    }
+
+    const claims = await readAccessToken(value)
+    if (!claims) {
+      return Response.json({ active: false })
+    }
+    return Response.json({
+      ...claims,
+      active: true,
+      client_id: claims.azp,
+      username: claims.preferred_username,
+      token_type: 'Bearer',
+    })
+  }
+
+  async function revoke(request: Request): Promise<Response> {
+    const form = await readForm(request)
+    if (!readClientId(request, form)) {
+      return oauthError('invalid_client', 'Missing client_id', 401)
+    }
+
+    const value = form.get('token') ?? ''
+    if (!refreshGrants.delete(value)) {
+      const claims = await readAccessToken(value)
+      if (claims) {
+        revokedAccessTokens.add(claims.jti as string)
+      }
+    }
+    return new Response(null, { status: 200 })
+  }
+
+  async function logout(request: Request, issuer: string): Promise<Response> {
+    const params =
+      request.method === 'POST' ? await readForm(request) : new URL(request.url).searchParams
+
+    const idTokenHint = params.get('id_token_hint')
+    const refreshToken = params.get('refresh_token')
+    if (idTokenHint) {
+      try {
+        const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(idTokenHint.split('.')[1])))
+        await endSession(issuer, claims.sid)
+      } catch {
+        return oauthError('invalid_request', 'Invalid id_token_hint')
+      }
+    } else if (refreshToken) {
+      const grant = refreshGrants.get(refreshToken)
+      if (grant) {
+        await endSession(issuer, grant.sid)
+      }
+    }
+
+    const redirectUri = params.get('post_logout_redirect_uri')
+    if (request.method === 'GET' && redirectUri) {
+      const location = new URL(redirectUri)
+      if (params.get('state')) {
+        location.searchParams.set('state', params.get('state')!)
+      }
+      return new Response(null, { status: 302, headers: { Location: location.toString() } })
+    }
+
+    return request.method === 'GET'
+      ? new Response('<!doctype html><p>You are logged out.</p>', {
+          headers: { 'Content-Type': 'text/html; charset=utf-8' },
+        })
+      : new Response(null, { status: 204 })
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const realmPath = `${basePath}/realms/${realm}`
+    if (!url.pathname.startsWith(`${realmPath}/`)) {
+      return oauthError('not_found', `Unknown realm, expected "${realm}"`, 404)
+    }
+
+    const issuer = `${url.origin}${realmPath}`
+    const route = `${request.method} ${url.pathname.slice(realmPath.length)}`
+
+    switch (route) {
+      case 'GET /.well-known/openid-configuration':
+        return Response.json(discovery(issuer))
+      case 'GET /protocol/openid-connect/certs': {
+        const jwk = await crypto.subtle.exportKey('jwk', (await keyPair).publicKey)
+        return Response.json({
+          keys: [{ kty: jwk.kty, n: jwk.n, e: jwk.e, kid, alg: 'RS256', use: 'sig' }],
+        })
+      }
+      case 'GET /protocol/openid-connect/auth':
+      case 'POST /protocol/openid-connect/auth':
+        return authorize(request, issuer)
+      case 'POST /protocol/openid-connect/ext/par/request':
+        return pushAuthorizationRequest(request)
+      case 'POST /protocol/openid-connect/token':
+        return token(request, issuer)
+      case 'POST /protocol/openid-connect/auth/device':
+        return deviceAuthorization(request, issuer)
+      case 'GET /device':
+      case 'POST /device':
+        return verifyDevice(request)
+      case 'GET /protocol/openid-connect/userinfo':
+      case 'POST /protocol/openid-connect/userinfo':
+        return userinfo(request)
+      case 'POST /protocol/openid-connect/token/introspect':
+        return introspect(request)
+      case 'POST /protocol/openid-connect/revoke':
+        return revoke(request)
+      case 'GET /protocol/openid-connect/logout':
+      case 'POST /protocol/openid-connect/logout':
+        return logout(request, issuer)
+      default:
+        return oauthError('not_found', `No mock endpoint for ${route}`, 404)
+    }
+  }
+
+  return { basePath, realm, users, handle, sign }
+}
+
+/**
+ * A `fetch` that answers requests to the mock provider in-process and passes
+ * everything else through, for tests that run without an HTTP server:
+ *
+ *   vi.stubGlobal('fetch', createMockFetch(createMockOidcProvider(), 'http://localhost:3000'))
+ */
+export function createMockFetch(
+  provider: MockOidcProvider,
+  origin: string,
+  fallback: typeof fetch = globalThis.fetch
+): typeof fetch {
+  const prefix = `${origin.replace(/\/+$/, '')}${provider.basePath}/`
+
+  return async (input, init) => {
+    const request = new Request(input, init)
+    return request.url.startsWith(prefix) ? provider.handle(request) : fallback(input, init)
+  }
+}
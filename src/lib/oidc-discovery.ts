@@ -0,0 +1,103 @@
+/**
+ * Provider-agnostic OpenID Connect discovery metadata
+ * The fields registered by OpenID Connect Discovery 1.0 §3, OAuth 2.0
+ * Authorization Server Metadata (RFC 8414) and the specs every provider we
+ * use implements. Vendor extensions are layered on top, see
+ * KeycloakDiscoveryMetadata in keycloak-discovery.ts.
+ *
+ * Only the fields Discovery 1.0 requires are guaranteed, see
+ * parseDiscoveryMetadata in discovery-validation.ts
+ */
+
+export const WELL_KNOWN_SUFFIX = '/.well-known/openid-configuration'
+
+export interface OidcDiscoveryMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  response_types_supported: string[]
+  subject_types_supported: string[]
+  id_token_signing_alg_values_supported: string[]
+
+  userinfo_endpoint?: string
+  registration_endpoint?: string
+  scopes_supported?: string[]
+  response_modes_supported?: string[]
+  grant_types_supported?: string[]
+  acr_values_supported?: string[]
+  id_token_encryption_alg_values_supported?: string[]
+  id_token_encryption_enc_values_supported?: string[]
+  userinfo_signing_alg_values_supported?: string[]
+  userinfo_encryption_alg_values_supported?: string[]
+  userinfo_encryption_enc_values_supported?: string[]
+  request_object_signing_alg_values_supported?: string[]
+  request_object_encryption_alg_values_supported?: string[]
+  request_object_encryption_enc_values_supported?: string[]
+  token_endpoint_auth_methods_supported?: string[]
+  token_endpoint_auth_signing_alg_values_supported?: string[]
+  claim_types_supported?: string[]
+  claims_supported?: string[]
+  claims_parameter_supported?: boolean
+  request_parameter_supported?: boolean
+  request_uri_parameter_supported?: boolean
+  require_request_uri_registration?: boolean
+  code_challenge_methods_supported?: string[]
+
+  // Token introspection (RFC 7662) and revocation (RFC 7009)
+  introspection_endpoint?: string
+  introspection_endpoint_auth_methods_supported?: string[]
+  introspection_endpoint_auth_signing_alg_values_supported?: string[]
+  revocation_endpoint?: string
+  revocation_endpoint_auth_methods_supported?: string[]
+  revocation_endpoint_auth_signing_alg_values_supported?: string[]
+
+  // Device authorization (RFC 8628) and pushed authorization requests (RFC 9126)
+  device_authorization_endpoint?: string
+  pushed_authorization_request_endpoint?: string
+  require_pushed_authorization_requests?: boolean
+
+  // Session management, RP-initiated, front-channel and back-channel logout
+  check_session_iframe?: string
+  end_session_endpoint?: string
+  frontchannel_logout_supported?: boolean
+  frontchannel_logout_session_supported?: boolean
+  backchannel_logout_supported?: boolean
+  backchannel_logout_session_supported?: boolean
+
+  // Issuer in authorization responses (RFC 9207), sender-constrained tokens
+  // through mutual TLS (RFC 8705) or DPoP (RFC 9449)
+  authorization_response_iss_parameter_supported?: boolean
+  tls_client_certificate_bound_access_tokens?: boolean
+  mtls_endpoint_aliases?: {
+    token_endpoint?: string
+    revocation_endpoint?: string
+    introspection_endpoint?: string
+    device_authorization_endpoint?: string
+    registration_endpoint?: string
+    userinfo_endpoint?: string
+    pushed_authorization_request_endpoint?: string
+    backchannel_authentication_endpoint?: string
+  }
+  dpop_signing_alg_values_supported?: string[]
+}
+
+/**
+ * Discovery URL of an issuer (Discovery 1.0 §4)
+ * URLs that already point at the discovery document are kept as they are.
+ */
+export function discoveryUrlFromIssuer(issuer: string): string {
+  if (issuer.endsWith(WELL_KNOWN_SUFFIX)) {
+    return issuer
+  }
+  return `${issuer.replace(/\/+$/, '')}${WELL_KNOWN_SUFFIX}`
+}
+
+/**
+ * Issuer a discovery URL belongs to, or undefined for non-standard URLs
+ */
+export function issuerFromDiscoveryUrl(discoveryUrl: string): string | undefined {
+  return discoveryUrl.endsWith(WELL_KNOWN_SUFFIX)
+    ? discoveryUrl.slice(0, -WELL_KNOWN_SUFFIX.length)
+    : undefined
+}
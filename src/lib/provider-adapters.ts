@@ -0,0 +1,114 @@
+/**
+ * Identity provider adapters
+ * Where each kind of provider publishes its issuer, and the quirks the login
+ * flows work around. Endpoints always come from discovery.
+ *
+ *   keycloak   {baseUrl}/realms/{realm}
+ *   authentik  {baseUrl}/application/o/{realm}/   (realm is the application slug)
+ *   dex        {baseUrl}                          (baseUrl is the issuer)
+ *   generic    {baseUrl}                          (any compliant issuer)
+ */
+
+import { buildIssuerUrl } from './keycloak-discovery'
+import { discoveryUrlFromIssuer } from './oidc-discovery'
+
+export type ProviderType = 'keycloak' | 'authentik' | 'dex' | 'generic'
+
+/**
+ * What locates a provider's issuer, Keycloak when no type is given
+ */
+export interface ProviderLocation {
+  type?: ProviderType
+  baseUrl: string
+  realm?: string
+}
+
+export interface ProviderAdapter {
+  type: ProviderType
+  label: string
+  // What `realm` means for this provider, null when the base URL is the issuer
+  realmLabel: string | null
+  issuerUrl(location: ProviderLocation): string
+  // Where users manage their own account, null when the provider has no such page
+  accountConsoleUrl(location: ProviderLocation): string | null
+  // Client used when the configuration names none, null to require one
+  defaultClientId: string | null
+  // Scopes requested when the provider configuration sets none
+  defaultScopes: string[]
+  // Keycloak identity brokering (kc_idp_hint)
+  supportsBrokers: boolean
+  // Access tokens are JWTs signed with the published keys; otherwise they
+  // may be opaque and only the ID token is verified
+  jwtAccessTokens: boolean
+}
+
+const STANDARD_SCOPES = ['openid', 'profile', 'email']
+
+const ADAPTERS: Record<ProviderType, ProviderAdapter> = {
+  keycloak: {
+    type: 'keycloak',
+    label: 'Keycloak',
+    realmLabel: 'realm',
+    issuerUrl: ({ baseUrl, realm = '' }) => buildIssuerUrl({ baseUrl, realm }),
+    accountConsoleUrl: ({ baseUrl, realm = '' }) => `${buildIssuerUrl({ baseUrl, realm })}/account`,
+    // Built into every realm
+    defaultClientId: 'account',
+    defaultScopes: STANDARD_SCOPES,
+    supportsBrokers: true,
+    jwtAccessTokens: true,
+  },
+  authentik: {
+    type: 'authentik',
+    label: 'Authentik',
+    realmLabel: 'application slug',
+    // Authentik's issuer keeps the trailing slash
+    issuerUrl: ({ baseUrl, realm = '' }) => `${baseUrl}/application/o/${realm}/`,
+    accountConsoleUrl: ({ baseUrl }) => `${baseUrl}/if/user/`,
+    defaultClientId: null,
+    // Refresh tokens are only issued for offline_access
+    defaultScopes: [...STANDARD_SCOPES, 'offline_access'],
+    supportsBrokers: false,
+    jwtAccessTokens: true,
+  },
+  dex: {
+    type: 'dex',
+    label: 'Dex',
+    realmLabel: null,
+    issuerUrl: ({ baseUrl }) => baseUrl,
+    accountConsoleUrl: () => null,
+    defaultClientId: null,
+    // Dex needs offline_access for refresh tokens and groups for the groups claim
+    defaultScopes: [...STANDARD_SCOPES, 'offline_access', 'groups'],
+    supportsBrokers: false,
+    jwtAccessTokens: true,
+  },
+  generic: {
+    type: 'generic',
+    label: 'OpenID Connect',
+    realmLabel: null,
+    issuerUrl: ({ baseUrl }) => baseUrl,
+    accountConsoleUrl: () => null,
+    defaultClientId: null,
+    defaultScopes: STANDARD_SCOPES,
+    supportsBrokers: false,
+    jwtAccessTokens: false,
+  },
+}
+
+export const PROVIDER_TYPES = Object.keys(ADAPTERS) as ProviderType[]
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return typeof value === 'string' && Object.hasOwn(ADAPTERS, value)
+}
+
+export function getProviderAdapter(type: ProviderType = 'keycloak'): ProviderAdapter {
+  return ADAPTERS[type]
+}
+
+export function buildProviderIssuerUrl(location: ProviderLocation): string {
+  return getProviderAdapter(location.type).issuerUrl(location)
+}
+
+export function buildProviderDiscoveryUrl(location: ProviderLocation): string {
+  return discoveryUrlFromIssuer(buildProviderIssuerUrl(location))
+}
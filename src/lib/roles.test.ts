@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { extractRoles, hasRole, missingRoles } from './roles'
+
+describe('extractRoles', () => {
+  it('reads realm roles and the roles of each client', () => {
+    const roles = extractRoles({
+      realm_access: { roles: ['admin', 'user'] },
+      resource_access: { account: { roles: ['view-profile'] }, app: {} },
+    })
+
+    expect(roles).toEqual({ realm: ['admin', 'user'], clients: { account: ['view-profile'], app: [] } })
+  })
+
+  it('reads groups as realm roles for providers without realm_access', () => {
+    expect(extractRoles({ groups: ['admin'] })).toEqual({ realm: ['admin'], clients: {} })
+    expect(extractRoles({ groups: 'admin' })).toEqual({ realm: [], clients: {} })
+  })
+})
+
+describe('hasRole', () => {
+  const roles = { realm: ['admin'], clients: { account: ['manage-account'] } }
+
+  it('tells realm roles from client roles', () => {
+    expect(hasRole(roles, 'admin')).toBe(true)
+    expect(hasRole(roles, 'manage-account')).toBe(false)
+    expect(hasRole(roles, 'account:manage-account')).toBe(true)
+    expect(hasRole(roles, 'account:admin')).toBe(false)
+    expect(hasRole(roles, 'app:manage-account')).toBe(false)
+  })
+
+  it('grants nothing without roles', () => {
+    expect(hasRole(undefined, 'admin')).toBe(false)
+  })
+})
+
+describe('missingRoles', () => {
+  it('lists the required roles the user lacks, in order', () => {
+    const roles = { realm: ['user'], clients: {} }
+    expect(missingRoles(roles, ['admin', 'user', 'account:view-profile'])).toEqual(['admin', 'account:view-profile'])
+    expect(missingRoles(roles, [])).toEqual([])
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Keycloak role checks
+ * Roles come from the access token: `realm_access.roles` for realm roles and
+ * `resource_access[clientId].roles` for client roles. Providers without
+ * Keycloak's role claims (Authentik, Dex) have their `groups` claim read as
+ * realm roles instead.
+ *
+ * Required roles are written as `role` for a realm role and
+ * `clientId:role` for a client role, e.g. `['admin', 'account:manage-account']`.
+ */
+
+export interface UserRoles {
+  realm: string[]
+  clients: Record<string, string[]>
+}
+
+export const NO_ROLES: UserRoles = { realm: [], clients: {} }
+
+/**
+ * Reads realm and client roles from access token claims
+ */
+export function extractRoles(claims: Record<string, unknown>): UserRoles {
+  const realmAccess = claims.realm_access as { roles?: string[] } | undefined
+  const resourceAccess = claims.resource_access as Record<string, { roles?: string[] }> | undefined
+
+  return {
+    realm: realmAccess?.roles ?? (Array.isArray(claims.groups) ? claims.groups : []),
+    clients: Object.fromEntries(
+      Object.entries(resourceAccess ?? {}).map(([clientId, access]) => [clientId, access.roles ?? []])
+    ),
+  }
+}
+
+export function hasRole(roles: UserRoles | undefined, role: string): boolean {
+  if (!roles) {
+    return false
+  }
+
+  const separator = role.indexOf(':')
+  if (separator === -1) {
+    return roles.realm.includes(role)
+  }
+
+  const clientId = role.slice(0, separator)
+  return roles.clients[clientId]?.includes(role.slice(separator + 1)) ?? false
+}
+
+/**
+ * Lists the required roles the user does not have
+ */
+export function missingRoles(roles: UserRoles | undefined, required: string[]): string[] {
+  return required.filter((role) => !hasRole(roles, role))
+}
+
+declare module '@tanstack/react-router' {
+  interface StaticDataRouteOption {
+    // Roles the user needs to enter the route, checked by the root route
+    roles?: string[]
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { APP_ORIGIN, installMockIdp, signIn, signInAt } from '@/test/mock-idp'
+import { invalidateDiscoveryCache } from './discovery-client'
+import { getProvider } from './idp-registry'
+import { beginAuthorization, completeAuthorization } from './keycloak-auth'
+import { getSessionMonitorConfig } from './session-monitor'
+
+beforeAll(() => {
+  installMockIdp()
+})
+
+beforeEach(() => {
+  clearCookies()
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  invalidateDiscoveryCache()
+})
+
+describe('session monitor settings', () => {
+  it('has nothing to watch without a session', async () => {
+    expect(await getSessionMonitorConfig()).toBeNull()
+  })
+
+  it('watches the session_state of the authorization response, polling where the provider has no iframe', async () => {
+    const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock' } })
+    const callback = await signInAt(authorizationUrl, 'alice')
+    await completeAuthorization({
+      data: {
+        code: callback.get('code')!,
+        state: callback.get('state')!,
+        sessionState: callback.get('session_state')!,
+      },
+    })
+
+    expect(await getSessionMonitorConfig()).toEqual({
+      checkSessionIframe: null,
+      clientId: getProvider('mock').clientId,
+      sessionState: callback.get('session_state'),
+    })
+  })
+  it('watches through the check_session_iframe the provider advertises', async () => {
+    const iframe = `${APP_ORIGIN}/mock-idp/realms/mock/protocol/openid-connect/login-status-iframe.html`
+    const fetchFromProvider = globalThis.fetch
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const response = await fetchFromProvider(input, init)
+      if (!String(input).endsWith('/.well-known/openid-configuration')) {
+        return response
+      }
+      return Response.json({ ...(await response.json()), check_session_iframe: iframe })
+    })
+    invalidateDiscoveryCache()
+    await signIn('alice')
+
+    expect((await getSessionMonitorConfig())?.checkSessionIframe).toBe(iframe)
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * Session status monitoring (OpenID Connect Session Management 1.0)
+ * What the browser needs to watch the Keycloak SSO session through the
+ * provider's check_session_iframe, see `useSessionMonitor`
+ */
+
+import { createServerFn } from '@tanstack/react-start'
+import { getDiscoveryMetadata } from './discovery-client'
+import { getProvider } from './idp-registry'
+import { readSession } from './session'
+
+export interface SessionMonitorConfig {
+  // Null when the provider has no check_session_iframe: poll the server instead
+  checkSessionIframe: string | null
+  clientId: string
+  sessionState: string | null
+}
+
+// Server function returning the session monitor settings for the current session
+export const getSessionMonitorConfig = createServerFn({ method: 'GET' }).handler(
+  async (): Promise<SessionMonitorConfig | null> => {
+    const session = await readSession()
+    if (!session) {
+      return null
+    }
+
+    const metadata = await getDiscoveryMetadata(getProvider(session.data.providerId)).catch(() => null)
+
+    return {
+      checkSessionIframe: metadata?.check_session_iframe ?? null,
+      clientId: session.data.clientId,
+      // Sessions stored before it was recorded have none
+      sessionState: session.data.sessionState ?? null,
+    }
+  }
+)
@@ -0,0 +1,154 @@
+/**
+ * Server-side session storage
+ * Backing stores for the session records referenced by the session cookie
+ *
+ * Select the store with SESSION_STORE=memory|file (default: memory).
+ * The file store writes one JSON document per session to SESSION_STORE_DIR,
+ * replacing it in one step so readers never see a half-written file.
+ * Other kinds of records get a namespace, a subdirectory of their own.
+ */
+
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+export interface SessionRecord<TData = unknown> {
+  data: TData
+  expiresAt: number
+}
+
+export interface SessionStore<TData = unknown> {
+  get(id: string): Promise<TData | null>
+  set(id: string, data: TData, ttlSeconds: number): Promise<void>
+  delete(id: string): Promise<void>
+  // Every live session, used to find sessions by content (back-channel logout)
+  entries(): Promise<Array<{ id: string; data: TData }>>
+}
+
+export type SessionStoreKind = 'memory' | 'file'
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Keeps sessions in process memory (lost on restart, not shared between instances)
+ */
+export function createMemorySessionStore<TData>(): SessionStore<TData> {
+  const records = new Map<string, SessionRecord<TData>>()
+
+  return {
+    async get(id) {
+      const record = records.get(id)
+      if (!record) {
+        return null
+      }
+      if (record.expiresAt <= Date.now()) {
+        records.delete(id)
+        return null
+      }
+      return record.data
+    },
+    async set(id, data, ttlSeconds) {
+      records.set(id, { data, expiresAt: Date.now() + ttlSeconds * 1000 })
+    },
+    async delete(id) {
+      records.delete(id)
+    },
+    async entries() {
+      const now = Date.now()
+      return [...records]
+        .filter(([, record]) => record.expiresAt > now)
+        .map(([id, record]) => ({ id, data: record.data }))
+    },
+  }
+}
+
+function parseRecord<TData>(content: string): SessionRecord<TData> | null {
+  try {
+    const record = JSON.parse(content)
+    return typeof record?.expiresAt === 'number' && 'data' in record ? record : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keeps sessions as JSON files in a directory (survives restarts)
+ */
+export function createFileSessionStore<TData>(directory: string): SessionStore<TData> {
+  const fileFor = (id: string) => {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid session id: ${id}`)
+    }
+    return path.join(directory, `${id}.json`)
+  }
+
+  const store: SessionStore<TData> = {
+    async get(id) {
+      const file = fileFor(id)
+      const content = await fs.promises.readFile(file, 'utf-8').catch(() => null)
+      if (!content) {
+        return null
+      }
+
+      // A file that can't be read back is as good as no session
+      const record = parseRecord<TData>(content)
+      if (!record || record.expiresAt <= Date.now()) {
+        await fs.promises.rm(file, { force: true })
+        return null
+      }
+      return record.data
+    },
+    async set(id, data, ttlSeconds) {
+      const record: SessionRecord<TData> = { data, expiresAt: Date.now() + ttlSeconds * 1000 }
+      const file = fileFor(id)
+      const temporary = `${file}.${process.pid}.${randomUUID()}.tmp`
+      await fs.promises.mkdir(directory, { recursive: true })
+      try {
+        await fs.promises.writeFile(temporary, JSON.stringify(record, null, 2))
+        await fs.promises.rename(temporary, file)
+      } catch (error) {
+        await fs.promises.rm(temporary, { force: true })
+        throw error
+      }
+    },
+    async delete(id) {
+      await fs.promises.rm(fileFor(id), { force: true })
+    },
+    async entries() {
+      const files = await fs.promises.readdir(directory).catch(() => [])
+      const entries = await Promise.all(
+        files
+          .filter((file) => file.endsWith('.json'))
+          .map(async (file) => {
+            const id = file.slice(0, -'.json'.length)
+            const data = SESSION_ID_PATTERN.test(id) ? await store.get(id) : null
+            return data ? { id, data } : null
+          })
+      )
+      return entries.filter((entry) => entry !== null)
+    },
+  }
+
+  return store
+}
+
+/**
+ * Creates the store configured through the environment
+ */
+export function createSessionStore<TData>(
+  options: { kind?: SessionStoreKind; namespace?: string } = {}
+): SessionStore<TData> {
+  const {
+    kind = (process.env.SESSION_STORE as SessionStoreKind | undefined) ?? 'memory',
+    namespace = '',
+  } = options
+
+  switch (kind) {
+    case 'memory':
+      return createMemorySessionStore<TData>()
+    case 'file':
+      return createFileSessionStore<TData>(path.join(process.env.SESSION_STORE_DIR ?? '.sessions', namespace))
+    default:
+      throw new Error(`Unknown SESSION_STORE "${kind}", expected "memory" or "file"`)
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Server-side authentication sessions
+ * Tokens live in the session store; the browser only holds an encrypted,
+ * signed HttpOnly cookie carrying the session id.
+ *
+ * Set SESSION_SECRET (32+ characters) in production.
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import {
+  getRequestUrl,
+  getSession as getCookieSession,
+  updateSession as updateCookieSession,
+  useSession,
+  type SessionConfig,
+} from '@tanstack/react-start/server'
+import { decodeJwt } from './jwt'
+import { extractRoles, type UserRoles } from './roles'
+import { createSessionStore, type SessionStore } from './session-store'
+import { generateRandomString } from './keycloak-pkce'
+import type { TokenResponse } from './keycloak-auth'
+
+const SESSION_COOKIE = 'kc_session'
+// Absolute lifetime of a session in seconds, refreshes do not extend it
+export const SESSION_MAX_AGE = 8 * 60 * 60
+
+const DEV_SESSION_SECRET = 'dev-only-session-secret-change-me-in-production'
+
+export interface SessionUser {
+  sub?: string
+  email?: string
+  name?: string
+  preferred_username?: string
+  roles?: UserRoles
+}
+
+export interface AuthSessionData {
+  // Registry id of the identity provider (see idp-registry.ts)
+  providerId: string
+  clientId: string
+  accessToken: string
+  refreshToken: string | null
+  idToken: string | null
+  // Keycloak's own session id (`sid`), matched by back-channel logout
+  idpSessionId: string | null
+  // `session_state` of the authorization response, sent to the provider's
+  // check_session_iframe (Session Management 1.0 §2); null without one
+  sessionState: string | null
+  // Epoch milliseconds
+  accessTokenExpiresAt: number
+  createdAt: number
+  user: SessionUser
+}
+
+export interface AuthSession {
+  id: string
+  data: AuthSessionData
+}
+
+/**
+ * What the browser is allowed to know about the session
+ */
+export interface SessionView {
+  isAuthenticated: boolean
+  user: SessionUser | null
+  // When the current access token expires (epoch milliseconds)
+  expiresAt: number | null
+}
+
+export const ANONYMOUS_SESSION: SessionView = {
+  isAuthenticated: false,
+  user: null,
+  expiresAt: null,
+}
+
+let sessionStore: SessionStore<AuthSessionData> | null = null
+
+const getSessionStore = createServerOnlyFn(() => {
+  sessionStore ??= createSessionStore<AuthSessionData>()
+  return sessionStore
+})
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) {
+    return secret
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production')
+  }
+  return DEV_SESSION_SECRET
+}
+
+/**
+ * Settings for an HttpOnly cookie encrypted and signed with SESSION_SECRET,
+ * for state the browser carries without being able to read or change it.
+ * Pass them to `useSession`.
+ */
+export const sealedCookieConfig = createServerOnlyFn(
+  (name: string, maxAge: number): SessionConfig => ({
+    name,
+    password: getSessionSecret(),
+    maxAge,
+    cookie: {
+      httpOnly: true,
+      secure: getRequestUrl().protocol === 'https:',
+      // Lax is required: logins come back as top-level redirects from the provider
+      sameSite: 'lax',
+      path: '/',
+    },
+  })
+)
+
+const useSessionCookie = createServerOnlyFn(() =>
+  useSession<{ sid: string }>(sealedCookieConfig(SESSION_COOKIE, SESSION_MAX_AGE))
+)
+
+/**
+ * Points the session cookie at `sid` with a new cookie of its own: the cookie
+ * expires SESSION_MAX_AGE after it was first written, and updating the one the
+ * request came with (even once cleared, h3 reads it back) would keep its expiry.
+ */
+const startSessionCookie = createServerOnlyFn(async (sid: string) => {
+  const config = sealedCookieConfig(SESSION_COOKIE, SESSION_MAX_AGE)
+  const cookie = await getCookieSession<{ sid: string }>(config)
+  Object.assign(cookie, { id: generateRandomString(), createdAt: Date.now(), data: { sid } })
+  await updateCookieSession(config)
+})
+
+/**
+ * Reads the user from the access token, falling back to the ID token for
+ * claims it lacks (or all of them, when the provider's access tokens are opaque)
+ */
+export function userFromToken(accessToken: string, idToken?: string | null): SessionUser {
+  const claims = { ...decodeJwt(idToken ?? ''), ...decodeJwt(accessToken) }
+
+  return {
+    sub: claims.sub as string | undefined,
+    email: claims.email as string | undefined,
+    name: claims.name as string | undefined,
+    preferred_username: claims.preferred_username as string | undefined,
+    roles: extractRoles(claims),
+  }
+}
+
+export function toSessionView(session: AuthSession | null): SessionView {
+  return session
+    ? { isAuthenticated: true, user: session.data.user, expiresAt: session.data.accessTokenExpiresAt }
+    : ANONYMOUS_SESSION
+}
+
+/**
+ * Merges a token endpoint response into session data
+ *
+ * Keeps the previous refresh and ID tokens when the response omits them,
+ * and adopts the new ones when Keycloak rotates them.
+ */
+export function applyTokens(data: AuthSessionData, tokens: TokenResponse): AuthSessionData {
+  const idToken = tokens.id_token ?? data.idToken
+  const claims = { ...decodeJwt(idToken ?? ''), ...decodeJwt(tokens.access_token) }
+
+  return {
+    ...data,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? data.refreshToken,
+    idToken,
+    idpSessionId:
+      (claims.sid as string | undefined) ?? tokens.session_state ?? data.idpSessionId,
+    accessTokenExpiresAt: Date.now() + tokens.expires_in * 1000,
+    user: userFromToken(tokens.access_token, idToken),
+  }
+}
+
+export function isSessionExpired(data: AuthSessionData): boolean {
+  return Date.now() >= data.createdAt + SESSION_MAX_AGE * 1000
+}
+
+/**
+ * Loads the session referenced by the request cookie
+ */
+export const readSession = createServerOnlyFn(async (): Promise<AuthSession | null> => {
+  const cookie = await useSessionCookie()
+  const id = cookie.data.sid
+  if (!id) {
+    return null
+  }
+
+  const data = await getSessionStore().get(id)
+  return data ? { id, data } : null
+})
+
+/**
+ * Stores a freshly issued token set and points the session cookie at it
+ */
+export const createSession = createServerOnlyFn(async (
+  providerId: string,
+  clientId: string,
+  tokens: TokenResponse,
+  sessionState: string | null = null
+): Promise<AuthSession> => {
+  const id = generateRandomString()
+  const data = applyTokens(
+    {
+      providerId,
+      clientId,
+      accessToken: '',
+      refreshToken: null,
+      idToken: null,
+      idpSessionId: null,
+      sessionState,
+      accessTokenExpiresAt: 0,
+      createdAt: Date.now(),
+      user: {},
+    },
+    tokens
+  )
+
+  // Replace any previous session instead of letting it linger in the store
+  await destroySession()
+  await getSessionStore().set(id, data, SESSION_MAX_AGE)
+  await startSessionCookie(id)
+
+  return { id, data }
+})
+
+/**
+ * Writes updated data for an existing session, keeping its original expiry
+ */
+export const saveSession = createServerOnlyFn(async (session: AuthSession): Promise<void> => {
+  const remaining = session.data.createdAt + SESSION_MAX_AGE * 1000 - Date.now()
+  if (remaining <= 0) {
+    await getSessionStore().delete(session.id)
+    return
+  }
+  await getSessionStore().set(session.id, session.data, Math.ceil(remaining / 1000))
+})
+
+/**
+ * Removes the current session from the store and clears the cookie
+ */
+export const destroySession = createServerOnlyFn(async (): Promise<void> => {
+  const cookie = await useSessionCookie()
+  if (cookie.data.sid) {
+    await getSessionStore().delete(cookie.data.sid)
+  }
+  await cookie.clear()
+})
+
+/**
+ * Removes every stored session of a provider matching the Keycloak session id
+ * and/or subject, whichever browser they belong to. Returns how many were removed.
+ */
+export const destroyMatchingSessions = createServerOnlyFn(async (match: {
+  providerId: string
+  clientIds: string[]
+  sid?: string
+  sub?: string
+}): Promise<number> => {
+  const store = getSessionStore()
+  const sessions = (await store.entries()).filter(
+    ({ data }) =>
+      data.providerId === match.providerId &&
+      match.clientIds.includes(data.clientId) &&
+      (match.sid === undefined || data.idpSessionId === match.sid) &&
+      (match.sub === undefined || data.user.sub === match.sub)
+  )
+
+  await Promise.all(sessions.map(({ id }) => store.delete(id)))
+  return sessions.length
+})
+
+// Server function exposing the current session to loaders and components
+export const getSession = createServerFn({
+  method: 'GET',
+}).handler(async () => toSessionView(await readSession()))
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTodoQueue, type QueuedTodoMutation } from './todo-queue'
+import type { Todo } from './todo-store'
+import { isValidationError, ValidationError } from './validation-errors'
+
+const LIST = 'mock:alice'
+
+let online: boolean
+let storage: Map<string, string>
+
+// Lets every send that already got an answer settle
+const settle = () => new Promise((resolve) => setImmediate(resolve))
+
+function todo(id: string, updatedAt = 1): Todo {
+  return { id, name: id, completed: false, createdAt: 1, updatedAt }
+}
+
+beforeEach(() => {
+  online = true
+  storage = new Map()
+  vi.stubGlobal('window', new EventTarget())
+  vi.stubGlobal('navigator', {
+    get onLine() {
+      return online
+    },
+  })
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('replaying changes', () => {
+  it('sends changes one at a time, in the order they were made', async () => {
+    const sent: string[] = []
+    const queue = createTodoQueue('alice', LIST, async (list, mutation) => {
+      sent.push(`${list} ${mutation.type}`)
+      return []
+    })
+
+    queue.enqueue({ type: 'add', id: 'a', name: 'a', createdAt: 1 })
+    queue.enqueue({ type: 'delete', id: 'a' })
+    queue.enqueue({ type: 'clearCompleted' })
+    await settle()
+
+    expect(sent).toEqual([`${LIST} add`, `${LIST} delete`, `${LIST} clearCompleted`])
+    expect(queue.getState().pending).toEqual([])
+    expect(storage.size).toBe(0)
+  })
+
+  it('keeps changes made offline across a reload and sends them once back online', async () => {
+    online = false
+    const offline = createTodoQueue('alice', LIST, () => Promise.reject(new Error('not sent')))
+    offline.enqueue({ type: 'add', id: 'a', name: 'a', createdAt: 1 })
+    await settle()
+    expect(offline.getState()).toMatchObject({ offline: true, conflicts: [] })
+
+    const send = vi.fn(async () => [todo('a')])
+    const reloaded = createTodoQueue('alice', LIST, send)
+    expect(reloaded.getState().pending).toMatchObject([{ type: 'add', id: 'a' }])
+
+    online = true
+    window.dispatchEvent(new Event('online'))
+    await settle()
+    expect(send).toHaveBeenCalledOnce()
+    expect(reloaded.getState()).toMatchObject({ pending: [], offline: false })
+  })
+
+  it('keeps the changes of each user and list apart', async () => {
+    online = false
+    createTodoQueue('alice', LIST).enqueue({ type: 'clearCompleted' })
+    await settle()
+
+    expect(createTodoQueue('alice', LIST).getState().pending).toHaveLength(1)
+    expect(createTodoQueue('bob', LIST).getState().pending).toEqual([])
+    expect(createTodoQueue(null, LIST).getState().pending).toEqual([])
+    expect(createTodoQueue('alice', 'mock:bob').getState().pending).toEqual([])
+  })
+
+  it('passes the todo as the server saved it on to later changes', async () => {
+    const sent: QueuedTodoMutation[] = []
+    const queue = createTodoQueue('alice', LIST, async (_list, mutation) => {
+      sent.push(mutation)
+      return [todo('a', 42)]
+    })
+
+    queue.enqueue({ type: 'add', id: 'a', name: 'a', createdAt: 1 })
+    queue.enqueue({ type: 'toggle', id: 'a', completed: true, updatedAt: 1 })
+    await settle()
+
+    expect(sent[1]).toMatchObject({ type: 'toggle', updatedAt: 42 })
+  })
+})
+
+describe('unreachable server', () => {
+  it('retries a failed fetch a limited number of times', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    const send = vi.fn((): Promise<Todo[]> => Promise.reject(new TypeError('Failed to fetch')))
+    const queue = createTodoQueue('alice', LIST, send)
+
+    queue.enqueue({ type: 'clearCompleted' })
+    await settle()
+    expect(queue.getState()).toMatchObject({ offline: true, conflicts: [] })
+
+    for (let i = 0; i < 10; i++) {
+      await vi.advanceTimersByTimeAsync(15 * 1000)
+      await settle()
+    }
+    expect(send).toHaveBeenCalledTimes(5)
+    expect(queue.getState().pending).toHaveLength(1)
+
+    // A new change tries again
+    send.mockImplementation(async () => [])
+    queue.enqueue({ type: 'clearCompleted' })
+    await settle()
+    expect(queue.getState()).toMatchObject({ pending: [], offline: false })
+  })
+
+  it('reports other TypeErrors as conflicts instead of waiting for the network', async () => {
+    const queue = createTodoQueue('alice', LIST, () =>
+      Promise.reject(new TypeError("Cannot read properties of undefined (reading 'id')"))
+    )
+
+    queue.enqueue({ type: 'clearCompleted' })
+    await settle()
+
+    expect(queue.getState()).toMatchObject({ pending: [], offline: false })
+    expect(queue.getState().conflicts).toHaveLength(1)
+  })
+})
+
+describe('refused changes', () => {
+  it('keeps the refusal as a conflict and drops later changes to a todo that was never added', async () => {
+    const send = vi.fn(async (_list: string, mutation: QueuedTodoMutation): Promise<Todo[]> => {
+      if (mutation.type === 'add') {
+        throw new ValidationError({ name: ['Todo name is required'] })
+      }
+      return []
+    })
+    const queue = createTodoQueue('alice', LIST, send)
+    const settled = vi.fn()
+    queue.onSettled(settled)
+
+    queue.enqueue({ type: 'add', id: 'a', name: ' ', createdAt: 1 })
+    queue.enqueue({ type: 'rename', id: 'a', name: 'b', updatedAt: 1 })
+    queue.enqueue({ type: 'clearCompleted' })
+    await settle()
+
+    expect(send.mock.calls.map(([, mutation]) => mutation.type)).toEqual(['add', 'clearCompleted'])
+    const [conflict] = queue.getState().conflicts
+    expect(conflict.mutation).toMatchObject({ type: 'add', id: 'a' })
+    expect(conflict.message).toBe('Todo name is required')
+    expect(isValidationError(conflict.error) && conflict.error.fieldErrors.name).toEqual(['Todo name is required'])
+    expect(settled).toHaveBeenNthCalledWith(1)
+
+    queue.dismissConflict(conflict.mutation.key)
+    expect(queue.getState().conflicts).toEqual([])
+  })
+})
@@ -0,0 +1,280 @@
+/**
+ * Todo changes made in the browser
+ * Changes show on screen right away and reach the server one at a time, in the
+ * order they were made. Each user has a queue per list, kept in localStorage
+ * under a key naming both, so changes made offline survive a reload and are
+ * sent once the connection is back, by the same user only. A change the
+ * server refuses is dropped, which rolls it back on screen, and kept as a
+ * conflict for the page to show.
+ *
+ * Browser-only, see `useTodoQueue` for pages.
+ */
+
+import { addTodo, clearCompleted, deleteTodo, toggleTodo, updateTodo, type Todo } from './todos'
+
+// `updatedAt` is the todo's as the user saw it, so the server can tell when
+// someone else changed it in between
+export type TodoMutation =
+  | { type: 'add'; id: string; name: string; createdAt: number }
+  | { type: 'rename'; id: string; name: string; updatedAt: number }
+  | { type: 'toggle'; id: string; completed: boolean; updatedAt: number }
+  | { type: 'delete'; id: string }
+  | { type: 'clearCompleted' }
+
+export type QueuedTodoMutation = TodoMutation & {
+  key: string
+}
+
+export interface TodoConflict {
+  mutation: QueuedTodoMutation
+  // What the server threw, a ValidationError for names it does not accept
+  error: unknown
+  message: string
+}
+
+export interface TodoQueueState {
+  // Oldest first, the first one is being sent
+  pending: QueuedTodoMutation[]
+  conflicts: TodoConflict[]
+  // The last attempt could not reach the server
+  offline: boolean
+}
+
+export interface TodoQueue {
+  getState(): TodoQueueState
+  subscribe(listener: () => void): () => void
+  // Called with the list the server returned for each change it applied, and
+  // without one for each change it refused
+  onSettled(listener: (todos?: Todo[]) => void): () => void
+  enqueue(mutation: TodoMutation): void
+  dismissConflict(key: string): void
+  // Sends the pending changes, unless that is already under way
+  flush(): Promise<void>
+}
+
+const STORAGE_KEY_PREFIX = 'todo-queue'
+
+// Wait before trying again when the browser is online but the server can't be reached (ms)
+const RETRY_INTERVAL = 15 * 1000
+// Attempts in a row after which only coming back online or a new change tries again
+const MAX_RETRIES = 5
+
+/**
+ * The todos as they will be once the server applied `mutation`
+ */
+export function applyMutation(todos: Todo[], mutation: TodoMutation): Todo[] {
+  switch (mutation.type) {
+    case 'add': {
+      const { id, name, createdAt } = mutation
+      return todos.some((todo) => todo.id === id)
+        ? todos
+        : [...todos, { id, name, completed: false, createdAt, updatedAt: createdAt }]
+    }
+    case 'rename':
+      return todos.map((todo) => (todo.id === mutation.id ? { ...todo, name: mutation.name } : todo))
+    case 'toggle':
+      return todos.map((todo) => (todo.id === mutation.id ? { ...todo, completed: mutation.completed } : todo))
+    case 'delete':
+      return todos.filter((todo) => todo.id !== mutation.id)
+    case 'clearCompleted':
+      return todos.filter((todo) => !todo.completed)
+  }
+}
+
+export function describeMutation(mutation: TodoMutation): string {
+  switch (mutation.type) {
+    case 'add':
+      return `Adding "${mutation.name}"`
+    case 'rename':
+      return `Renaming a todo to "${mutation.name}"`
+    case 'toggle':
+      return mutation.completed ? 'Marking a todo as done' : 'Reopening a todo'
+    case 'delete':
+      return 'Deleting a todo'
+    case 'clearCompleted':
+      return 'Clearing completed todos'
+  }
+}
+
+function sendMutation(list: string, mutation: QueuedTodoMutation): Promise<Todo[]> {
+  switch (mutation.type) {
+    case 'add':
+      return addTodo({ data: { list, id: mutation.id, name: mutation.name } })
+    case 'rename':
+      return updateTodo({ data: { list, id: mutation.id, name: mutation.name, updatedAt: mutation.updatedAt } })
+    case 'toggle':
+      return toggleTodo({
+        data: { list, id: mutation.id, completed: mutation.completed, updatedAt: mutation.updatedAt },
+      })
+    case 'delete':
+      return deleteTodo({ data: { list, id: mutation.id } })
+    case 'clearCompleted':
+      return clearCompleted({ data: { list } })
+  }
+}
+
+// What fetch rejects with when the request never got an answer, by browser:
+// Chromium, Firefox, Safari and Node
+const FETCH_FAILURES = /^(Failed to fetch|NetworkError when attempting to fetch resource\.?|Load failed|fetch failed)$/
+
+function isNetworkError(error: unknown): boolean {
+  return !navigator.onLine || (error instanceof TypeError && FETCH_FAILURES.test(error.message))
+}
+
+// Signed-out visitors share the guest list, and so the queue of this browser
+function storageKey(user: string | null, list: string): string {
+  return `${STORAGE_KEY_PREFIX}:${user ?? 'guest'}:${list}`
+}
+
+function load(key: string): QueuedTodoMutation[] {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+// Storage may be full or disabled, the queue then only lasts until a reload
+function save(key: string, pending: QueuedTodoMutation[]) {
+  try {
+    if (pending.length > 0) {
+      localStorage.setItem(key, JSON.stringify(pending))
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch {
+    // Keep going in memory
+  }
+}
+
+/**
+ * Creates the queue of `user`'s changes to `list` and sends what it holds
+ * whenever the browser comes back online
+ *
+ * `user` is the signed-in user's subject, null for signed-out visitors.
+ */
+export function createTodoQueue(
+  user: string | null,
+  list: string,
+  send: (list: string, mutation: QueuedTodoMutation) => Promise<Todo[]> = sendMutation
+): TodoQueue {
+  const itemKey = storageKey(user, list)
+  let state: TodoQueueState = { pending: load(itemKey), conflicts: [], offline: false }
+  const listeners = new Set<() => void>()
+  const settledListeners = new Set<(todos?: Todo[]) => void>()
+  let sending = false
+  let retries = 0
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+  const setState = (change: Partial<TodoQueueState>) => {
+    state = { ...state, ...change }
+    if (change.pending) {
+      save(itemKey, state.pending)
+    }
+    listeners.forEach((listener) => listener())
+  }
+
+  // Later changes to the same todo were made on top of this one: they now
+  // expect the todo as the server just saved it
+  const applied = (mutation: QueuedTodoMutation, todos: Todo[]) => {
+    const saved = 'id' in mutation ? todos.find((todo) => todo.id === mutation.id) : undefined
+    setState({
+      offline: false,
+      pending: state.pending
+        .slice(1)
+        .map((next) =>
+          saved && 'updatedAt' in next && next.id === saved.id ? { ...next, updatedAt: saved.updatedAt } : next
+        ),
+    })
+    settledListeners.forEach((listener) => listener(todos))
+  }
+
+  // Changes to a todo the server refused to add can't succeed either
+  const refused = (mutation: QueuedTodoMutation, error: unknown) => {
+    setState({
+      offline: false,
+      pending: state.pending
+        .slice(1)
+        .filter((next) => !(mutation.type === 'add' && 'id' in next && next.id === mutation.id)),
+      conflicts: [
+        ...state.conflicts,
+        { mutation, error, message: error instanceof Error ? error.message : 'The server refused the change' },
+      ],
+    })
+    settledListeners.forEach((listener) => listener())
+  }
+
+  const flush = async () => {
+    if (sending) {
+      return
+    }
+
+    sending = true
+    clearTimeout(retryTimer)
+    try {
+      while (state.pending.length > 0) {
+        if (!navigator.onLine) {
+          setState({ offline: true })
+          return
+        }
+
+        const [mutation] = state.pending
+        try {
+          applied(mutation, await send(list, mutation))
+        } catch (error) {
+          if (isNetworkError(error)) {
+            setState({ offline: true })
+            retries++
+            if (retries < MAX_RETRIES) {
+              retryTimer = setTimeout(flush, RETRY_INTERVAL)
+            }
+            return
+          }
+          refused(mutation, error)
+        }
+        retries = 0
+      }
+    } finally {
+      sending = false
+    }
+  }
+
+  window.addEventListener('online', () => {
+    retries = 0
+    void flush()
+  })
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    onSettled(listener) {
+      settledListeners.add(listener)
+      return () => settledListeners.delete(listener)
+    },
+    enqueue(mutation) {
+      setState({ pending: [...state.pending, { ...mutation, key: crypto.randomUUID() }] })
+      retries = 0
+      void flush()
+    },
+    dismissConflict(key) {
+      setState({ conflicts: state.conflicts.filter((conflict) => conflict.mutation.key !== key) })
+    },
+    flush,
+  }
+}
+
+const todoQueues = new Map<string, TodoQueue>()
+
+export function getTodoQueue(user: string | null, list: string): TodoQueue {
+  const key = storageKey(user, list)
+  let queue = todoQueues.get(key)
+  if (!queue) {
+    queue = createTodoQueue(user, list)
+    todoQueues.set(key, queue)
+  }
+  return queue
+}
@@ -0,0 +1,246 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createFileTodoStore,
+  createMemoryTodoStore,
+  createSqliteTodoStore,
+  GUEST_LIST,
+  type TodoStore,
+} from './todo-store'
+
+// node:sqlite comes with Node.js 22.5 (behind a flag until 22.13)
+const hasSqlite = await import('node:sqlite').then(
+  () => true,
+  () => false
+)
+
+const ALICE = 'mock:alice'
+const BOB = 'mock:bob'
+
+let directory: string
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'todo-store-'))
+  vi.useFakeTimers({ toFake: ['Date'] })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+// Each store kind, with a way to open the same storage again where it outlives the store
+const stores: Array<{ kind: string; skip?: boolean; open: () => TodoStore; reopen?: () => TodoStore }> = [
+  { kind: 'memory', open: () => createMemoryTodoStore() },
+  {
+    kind: 'file',
+    open: () => createFileTodoStore(path.join(directory, 'todos.json')),
+    reopen: () => createFileTodoStore(path.join(directory, 'todos.json')),
+  },
+  {
+    kind: 'sqlite',
+    skip: !hasSqlite,
+    open: () => createSqliteTodoStore(path.join(directory, 'todos.db')),
+    reopen: () => createSqliteTodoStore(path.join(directory, 'todos.db')),
+  },
+]
+
+describe.each(stores)('$kind store', ({ skip, open, reopen }) => {
+  let store: TodoStore
+
+  beforeEach(() => {
+    store = open()
+  })
+
+  describe.skipIf(skip)('todos', () => {
+    it('starts the guest list with the default todos and other lists empty', async () => {
+      expect((await store.list(GUEST_LIST)).map((todo) => todo.name)).toEqual(['Get groceries', 'Buy a new phone'])
+      expect(await store.list(ALICE)).toEqual([])
+    })
+
+    it('lists todos oldest first', async () => {
+      const first = await store.add(ALICE, 'First')
+      vi.advanceTimersByTime(1000)
+      const second = await store.add(ALICE, 'Second')
+
+      expect(await store.list(ALICE)).toEqual([first, second])
+      expect(first).toMatchObject({ name: 'First', completed: false, updatedAt: first.createdAt })
+    })
+
+    it('adds a todo under a given id once', async () => {
+      const id = crypto.randomUUID()
+      const added = await store.add(ALICE, 'Once', id)
+
+      expect(await store.add(ALICE, 'Twice', id)).toEqual(added)
+      expect(await store.list(ALICE)).toEqual([added])
+    })
+
+    it('updates a todo, giving function changes the current todo', async () => {
+      const todo = await store.add(ALICE, 'Old')
+      vi.advanceTimersByTime(1000)
+
+      const renamed = await store.update(ALICE, todo.id, { name: 'New' })
+      expect(renamed).toEqual({ ...todo, name: 'New', updatedAt: todo.updatedAt + 1000 })
+
+      const toggled = await store.update(ALICE, todo.id, (current) => ({ completed: !current.completed }))
+      expect(toggled).toMatchObject({ name: 'New', completed: true })
+      expect(await store.list(ALICE)).toEqual([toggled])
+    })
+
+    it('reports todos it does not have', async () => {
+      expect(await store.update(ALICE, crypto.randomUUID(), { name: 'Nothing' })).toBeNull()
+      expect(await store.delete(ALICE, crypto.randomUUID())).toBe(false)
+    })
+
+    it('deletes todos, one or all completed ones', async () => {
+      const kept = await store.add(ALICE, 'Kept')
+      const deleted = await store.add(ALICE, 'Deleted')
+      for (const name of ['Done', 'Also done']) {
+        const done = await store.add(ALICE, name)
+        await store.update(ALICE, done.id, { completed: true })
+      }
+
+      expect(await store.delete(ALICE, deleted.id)).toBe(true)
+      expect(await store.deleteCompleted(ALICE)).toBe(2)
+      expect(await store.list(ALICE)).toEqual([kept])
+    })
+
+    it('keeps lists apart, even for todos with the same id', async () => {
+      const id = crypto.randomUUID()
+      await store.add(ALICE, "Alice's", id)
+      await store.add(BOB, "Bob's", id)
+
+      await store.update(ALICE, id, { name: 'Renamed', completed: true })
+      expect((await store.list(BOB))[0]).toMatchObject({ name: "Bob's", completed: false })
+
+      await store.deleteCompleted(ALICE)
+      expect(await store.list(ALICE)).toEqual([])
+      expect(await store.list(BOB)).toHaveLength(1)
+      expect(await store.delete(ALICE, id)).toBe(false)
+    })
+
+    it('loses no change made at the same time', async () => {
+      await Promise.all(Array.from({ length: 20 }, (_, i) => store.add(ALICE, `Todo ${i}`)))
+      const todos = await store.list(ALICE)
+      expect(todos).toHaveLength(20)
+
+      await Promise.all(todos.map((todo) => store.update(ALICE, todo.id, { completed: true })))
+      expect(await store.deleteCompleted(ALICE)).toBe(20)
+    })
+
+    it.skipIf(!reopen)('keeps todos for the next store opened on the same storage', async () => {
+      const todo = await store.add(ALICE, 'Saved')
+      await store.update(ALICE, todo.id, { completed: true })
+
+      expect(await reopen!().list(ALICE)).toEqual(await store.list(ALICE))
+    })
+
+    it.skipIf(!reopen)('leaves the guest list empty once emptied, on the next store too', async () => {
+      for (const todo of await store.list(GUEST_LIST)) {
+        await store.delete(GUEST_LIST, todo.id)
+      }
+
+      expect(await reopen!().list(GUEST_LIST)).toEqual([])
+    })
+  })
+
+  describe.skipIf(skip)('sharing', () => {
+    it('has no sharing details until the owner shares the list', async () => {
+      await store.add(ALICE, 'Private')
+      expect(await store.getListInfo(ALICE)).toBeNull()
+      expect(await store.listsSharedWith('mock', 'bob-sub')).toEqual([])
+    })
+
+    it('gives changes the current details', async () => {
+      const share = (sub: string) =>
+        store.updateListInfo(ALICE, (info) => ({
+          providerId: 'mock',
+          ownerName: 'alice',
+          sharedWith: [...(info?.sharedWith ?? []), sub],
+        }))
+
+      await Promise.all([share('bob-sub'), share('carol-sub')])
+      expect((await store.getListInfo(ALICE))?.sharedWith.sort()).toEqual(['bob-sub', 'carol-sub'])
+    })
+
+    it('finds the lists shared with a user of the same provider', async () => {
+      await store.updateListInfo(ALICE, () => ({ providerId: 'mock', ownerName: 'alice', sharedWith: ['bob-sub'] }))
+      await store.updateListInfo('other:carol', () => ({
+        providerId: 'other',
+        ownerName: 'carol',
+        sharedWith: ['bob-sub'],
+      }))
+
+      expect(await store.listsSharedWith('mock', 'bob-sub')).toEqual([{ list: ALICE, ownerName: 'alice' }])
+      expect(await store.listsSharedWith('mock', 'carol-sub')).toEqual([])
+    })
+
+    it.skipIf(!reopen)('keeps sharing details for the next store opened on the same storage', async () => {
+      const info = await store.updateListInfo(ALICE, () => ({
+        providerId: 'mock',
+        ownerName: 'alice',
+        sharedWith: ['bob-sub'],
+      }))
+      await store.saveUsername('mock', 'bob-sub', 'bob')
+
+      const reopened = reopen!()
+      expect(await reopened.getListInfo(ALICE)).toEqual(info)
+      expect(await reopened.findUserByName('mock', 'bob')).toBe('bob-sub')
+    })
+  })
+
+  describe.skipIf(skip)('usernames', () => {
+    it('finds users by the username they last went by, ignoring case', async () => {
+      await store.saveUsername('mock', 'bob-sub', 'bob')
+      await store.saveUsername('mock', 'bob-sub', 'Robert')
+
+      expect(await store.findUserByName('mock', 'robert')).toBe('bob-sub')
+      expect(await store.findUserByName('mock', 'bob')).toBeNull()
+      expect(await store.findUserByName('other', 'robert')).toBeNull()
+    })
+
+    it('gives a username taken again to the user who took it last', async () => {
+      await store.saveUsername('mock', 'old-sub', 'bob')
+      vi.advanceTimersByTime(1000)
+      await store.saveUsername('mock', 'new-sub', 'bob')
+
+      expect(await store.findUserByName('mock', 'bob')).toBe('new-sub')
+    })
+
+    it('does not hand a username to someone else when its user is seen again', async () => {
+      await store.saveUsername('mock', 'old-sub', 'bob')
+      vi.advanceTimersByTime(1000)
+      await store.saveUsername('mock', 'new-sub', 'bob')
+      vi.advanceTimersByTime(1000)
+      await store.saveUsername('mock', 'old-sub', 'bob')
+
+      expect(await store.findUserByName('mock', 'bob')).toBe('new-sub')
+    })
+
+    it('looks usernames up by subject, leaving unknown subjects out', async () => {
+      await store.saveUsername('mock', 'bob-sub', 'bob')
+      await store.saveUsername('other', 'carol-sub', 'carol')
+
+      expect(await store.getUsernames('mock', ['bob-sub', 'carol-sub'])).toEqual({ 'bob-sub': 'bob' })
+      expect(await store.getUsernames('mock', [])).toEqual({})
+    })
+  })
+})
+
+describe('file store', () => {
+  it('moves files written before lists existed into the guest list, in their order', async () => {
+    const file = path.join(directory, 'todos.json')
+    fs.writeFileSync(file, JSON.stringify([{ id: 1, name: 'First' }, { name: 'Second' }, { id: 3, name: 'Third' }]))
+
+    const todos = await createFileTodoStore(file).list(GUEST_LIST)
+    expect(todos.map(({ id, name }) => [id, name])).toEqual([
+      ['1', 'First'],
+      [expect.any(String), 'Second'],
+      ['3', 'Third'],
+    ])
+    // Ids given now are saved with the migrated list
+    expect(await createFileTodoStore(file).list(GUEST_LIST)).toEqual(todos)
+  })
+})
@@ -0,0 +1,639 @@
+/**
+ * Todo storage
+ * Backing stores for the todo demo, all safe against concurrent requests
+ *
+ * Select the store with TODO_STORE=file|memory|sqlite (default: file).
+ *   file    JSON document at TODO_STORE_FILE (default todos.json), rewritten
+ *           through a temporary file and a rename so readers never see a
+ *           partial write; read-modify-write cycles are serialized
+ *   memory  process memory (lost on restart, not shared between instances)
+ *   sqlite  database at TODO_STORE_SQLITE (default todos.db), through the
+ *           built-in node:sqlite module: Node.js 22.13 or later, or 22.5
+ *           and later started with --experimental-sqlite
+ *
+ * Todos belong to lists named by their owner (see todos.ts); the guest list
+ * holds the todos of signed-out visitors and of stores written before lists
+ * existed. Ids are UUIDs, stable across renames and deletes. Browsers may
+ * pick them (see todo-queue.ts), so stores key todos by list and id: an id
+ * reused in another list never reaches into it.
+ *
+ * Lists are shared by token subject (`sub`), which stays the same when users
+ * rename themselves. Each store also remembers the username it last saw for
+ * every subject, to find users by the name others know them by.
+ */
+
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import type { DatabaseSync } from 'node:sqlite'
+
+export interface Todo {
+  id: string
+  name: string
+  completed: boolean
+  // Milliseconds since the epoch
+  createdAt: number
+  updatedAt: number
+}
+
+export type TodoChange = Partial<Pick<Todo, 'name' | 'completed'>>
+
+// Who owns a list and who else may use it
+export interface TodoListInfo {
+  // Subjects are only meaningful within the owner's identity provider
+  providerId: string
+  ownerName: string
+  // Subjects (`sub`) of the users
+  sharedWith: string[]
+}
+
+export interface TodoStore {
+  // Oldest first
+  list(list: string): Promise<Todo[]>
+  // A given id makes retries safe: when the list already has that todo, it is
+  // returned as is
+  add(list: string, name: string, id?: string): Promise<Todo>
+  // Null when the list has no todo with that id. A function change is given
+  // the current todo within the same atomic step.
+  update(list: string, id: string, change: TodoChange | ((todo: Todo) => TodoChange)): Promise<Todo | null>
+  // False when the list has no todo with that id
+  delete(list: string, id: string): Promise<boolean>
+  // Number of todos deleted
+  deleteCompleted(list: string): Promise<number>
+  // Null until the owner shares the list
+  getListInfo(list: string): Promise<TodoListInfo | null>
+  // `change` is given the current info within the same atomic step
+  updateListInfo(list: string, change: (info: TodoListInfo | null) => TodoListInfo): Promise<TodoListInfo>
+  // Lists another user of the provider shared with the subject
+  listsSharedWith(providerId: string, sub: string): Promise<Array<{ list: string; ownerName: string }>>
+  // Records the username a user of the provider goes by now
+  saveUsername(providerId: string, sub: string, username: string): Promise<void>
+  // The subject last seen with the username (ignoring case), null when none was
+  findUserByName(providerId: string, username: string): Promise<string | null>
+  // Last seen usernames of the subjects, by subject; unknown ones are left out
+  getUsernames(providerId: string, subs: string[]): Promise<Record<string, string>>
+}
+
+interface KnownUser {
+  username: string
+  // Since when the user goes by the username (milliseconds since the epoch):
+  // the latest one to take a username wins it
+  seenAt: number
+}
+
+type KnownUsers = Record<string, Record<string, KnownUser>>
+
+function findKnownUser(users: Record<string, KnownUser>, username: string): string | null {
+  const name = username.toLowerCase()
+  const matches = Object.entries(users).filter(([, user]) => user.username.toLowerCase() === name)
+  matches.sort(([, a], [, b]) => b.seenAt - a.seenAt)
+  return matches[0]?.[0] ?? null
+}
+
+function pickUsernames(users: Record<string, KnownUser>, subs: string[]): Record<string, string> {
+  return Object.fromEntries(subs.filter((sub) => users[sub]).map((sub) => [sub, users[sub].username]))
+}
+
+export type TodoStoreKind = 'file' | 'memory' | 'sqlite'
+
+export const GUEST_LIST = 'guest'
+
+const DEFAULT_TODOS = ['Get groceries', 'Buy a new phone']
+
+function createTodo(name: string, id: string = randomUUID()): Todo {
+  const now = Date.now()
+  return { id, name, completed: false, createdAt: now, updatedAt: now }
+}
+
+// A millisecond apart, so that they are listed in this order
+function createTodos(names: string[]): Todo[] {
+  const now = Date.now()
+  return names.map((name, index) => ({ ...createTodo(name), createdAt: now + index, updatedAt: now + index }))
+}
+
+function applyChange(todo: Todo, change: TodoChange | ((todo: Todo) => TodoChange)): Todo {
+  return { ...todo, ...(typeof change === 'function' ? change(todo) : change), updatedAt: Date.now() }
+}
+
+function byCreation(a: Todo, b: Todo): number {
+  return a.createdAt - b.createdAt || a.id.localeCompare(b.id)
+}
+
+function isSharedWith(info: TodoListInfo, providerId: string, sub: string): boolean {
+  return info.providerId === providerId && info.sharedWith.includes(sub)
+}
+
+/**
+ * Runs async tasks one after the other
+ */
+function createMutex() {
+  let last: Promise<unknown> = Promise.resolve()
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = last.then(task, task)
+    last = run.catch(() => {})
+    return run
+  }
+}
+
+/**
+ * Keeps todos in process memory
+ */
+export function createMemoryTodoStore(initial: string[] = DEFAULT_TODOS): TodoStore {
+  const lists = new Map<string, { todos: Map<string, Todo>; info: TodoListInfo | null }>()
+  const users: KnownUsers = {}
+
+  const todosOf = (list: string) => {
+    let entry = lists.get(list)
+    if (!entry) {
+      entry = { todos: new Map(), info: null }
+      lists.set(list, entry)
+    }
+    return entry.todos
+  }
+
+  for (const todo of createTodos(initial)) {
+    todosOf(GUEST_LIST).set(todo.id, todo)
+  }
+
+  return {
+    async list(list) {
+      return [...todosOf(list).values()].sort(byCreation)
+    },
+    async add(list, name, id) {
+      const todos = todosOf(list)
+      const existing = id && todos.get(id)
+      if (existing) {
+        return existing
+      }
+      const todo = createTodo(name, id)
+      todos.set(todo.id, todo)
+      return todo
+    },
+    async update(list, id, change) {
+      const todos = todosOf(list)
+      const todo = todos.get(id)
+      if (!todo) {
+        return null
+      }
+      const updated = applyChange(todo, change)
+      todos.set(id, updated)
+      return updated
+    },
+    async delete(list, id) {
+      return todosOf(list).delete(id)
+    },
+    async deleteCompleted(list) {
+      const todos = todosOf(list)
+      let deleted = 0
+      for (const [id, todo] of todos) {
+        if (todo.completed && todos.delete(id)) {
+          deleted++
+        }
+      }
+      return deleted
+    },
+    async getListInfo(list) {
+      return lists.get(list)?.info ?? null
+    },
+    async updateListInfo(list, change) {
+      todosOf(list)
+      const entry = lists.get(list)!
+      entry.info = change(entry.info)
+      return entry.info
+    },
+    async listsSharedWith(providerId, sub) {
+      return [...lists]
+        .filter(([, { info }]) => info && isSharedWith(info, providerId, sub))
+        .map(([list, { info }]) => ({ list, ownerName: info!.ownerName }))
+    },
+    async saveUsername(providerId, sub, username) {
+      if (users[providerId]?.[sub]?.username !== username) {
+        users[providerId] = { ...users[providerId], [sub]: { username, seenAt: Date.now() } }
+      }
+    },
+    async findUserByName(providerId, username) {
+      return findKnownUser(users[providerId] ?? {}, username)
+    },
+    async getUsernames(providerId, subs) {
+      return pickUsernames(users[providerId] ?? {}, subs)
+    },
+  }
+}
+
+// Files written before todos had ids, a completed flag and timestamps
+type StoredTodo = Partial<Omit<Todo, 'id'>> & { id?: string | number; name: string }
+
+interface StoredList {
+  todos: StoredTodo[]
+  info?: TodoListInfo
+}
+
+interface TodoFile {
+  lists: Record<string, { todos: Todo[]; info?: TodoListInfo }>
+  users?: KnownUsers
+}
+
+// Todos saved without a creation time keep their order, a millisecond apart
+function normalizeTodo(todo: StoredTodo, index: number): Todo {
+  const now = Date.now() + index
+  return {
+    // Numeric ids of old files keep their value, as a string
+    id: todo.id !== undefined ? String(todo.id) : randomUUID(),
+    name: todo.name,
+    completed: todo.completed ?? false,
+    createdAt: todo.createdAt ?? now,
+    updatedAt: todo.updatedAt ?? todo.createdAt ?? now,
+  }
+}
+
+/**
+ * Keeps todos in one JSON file
+ */
+export function createFileTodoStore(file: string): TodoStore {
+  const exclusive = createMutex()
+
+  const write = async (data: TodoFile) => {
+    await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true })
+    const temporary = `${file}.${process.pid}.${randomUUID()}.tmp`
+    try {
+      await fs.promises.writeFile(temporary, JSON.stringify(data, null, 2))
+      await fs.promises.rename(temporary, file)
+    } catch (error) {
+      await fs.promises.rm(temporary, { force: true })
+      throw error
+    }
+  }
+
+  // Files holding one plain array predate lists, their todos become the guest
+  // list. Migrated files and todos that got an id only now are saved, so ids
+  // stay the same on the next read.
+  const read = async (): Promise<TodoFile> => {
+    const content = await fs.promises.readFile(file, 'utf-8').catch((error) => {
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    })
+
+    const parsed: StoredTodo[] | { lists: Record<string, StoredList>; users?: KnownUsers } =
+      content === null ? DEFAULT_TODOS.map((name) => ({ name })) : JSON.parse(content)
+    const stored: Record<string, StoredList> = Array.isArray(parsed)
+      ? { [GUEST_LIST]: { todos: parsed } }
+      : parsed.lists
+
+    const data: TodoFile = { lists: {}, users: Array.isArray(parsed) ? {} : (parsed.users ?? {}) }
+    for (const [list, { todos, info }] of Object.entries(stored)) {
+      data.lists[list] = { todos: todos.map(normalizeTodo), info }
+    }
+
+    const idsAssigned = Object.values(stored).some(({ todos }) => todos.some((todo) => todo.id === undefined))
+    if (Array.isArray(parsed) || idsAssigned) {
+      await write(data)
+    }
+    return data
+  }
+
+  // Reads, changes and writes the file without another change in between.
+  // `change` edits the data in place and says whether to save it.
+  const modify = <T>(change: (data: TodoFile) => { result: T; changed: boolean }) =>
+    exclusive(async () => {
+      const data = await read()
+      const { result, changed } = change(data)
+      if (changed) {
+        await write(data)
+      }
+      return result
+    })
+
+  const todosOf = (data: TodoFile, list: string) => {
+    data.lists[list] ??= { todos: [] }
+    return data.lists[list].todos
+  }
+
+  return {
+    async list(list) {
+      const data = await exclusive(read)
+      return [...(data.lists[list]?.todos ?? [])].sort(byCreation)
+    },
+    add(list, name, id) {
+      return modify((data) => {
+        const todos = todosOf(data, list)
+        const existing = id && todos.find((item) => item.id === id)
+        if (existing) {
+          return { result: existing, changed: false }
+        }
+        const todo = createTodo(name, id)
+        todos.push(todo)
+        return { result: todo, changed: true }
+      })
+    },
+    update(list, id, change) {
+      return modify((data) => {
+        const todos = todosOf(data, list)
+        const index = todos.findIndex((item) => item.id === id)
+        if (index === -1) {
+          return { result: null, changed: false }
+        }
+        todos[index] = applyChange(todos[index], change)
+        return { result: todos[index], changed: true }
+      })
+    },
+    delete(list, id) {
+      return modify((data) => {
+        const todos = todosOf(data, list)
+        const index = todos.findIndex((item) => item.id === id)
+        if (index === -1) {
+          return { result: false, changed: false }
+        }
+        todos.splice(index, 1)
+        return { result: true, changed: true }
+      })
+    },
+    deleteCompleted(list) {
+      return modify((data) => {
+        const todos = todosOf(data, list)
+        const remaining = todos.filter((todo) => !todo.completed)
+        data.lists[list].todos = remaining
+        return { result: todos.length - remaining.length, changed: remaining.length !== todos.length }
+      })
+    },
+    async getListInfo(list) {
+      const data = await exclusive(read)
+      return data.lists[list]?.info ?? null
+    },
+    updateListInfo(list, change) {
+      return modify((data) => {
+        todosOf(data, list)
+        const info = change(data.lists[list].info ?? null)
+        data.lists[list].info = info
+        return { result: info, changed: true }
+      })
+    },
+    async listsSharedWith(providerId, sub) {
+      const data = await exclusive(read)
+      return Object.entries(data.lists)
+        .filter(([, { info }]) => info && isSharedWith(info, providerId, sub))
+        .map(([list, { info }]) => ({ list, ownerName: info!.ownerName }))
+    },
+    saveUsername(providerId, sub, username) {
+      return modify((data) => {
+        const users = ((data.users ??= {})[providerId] ??= {})
+        if (users[sub]?.username === username) {
+          return { result: undefined, changed: false }
+        }
+        users[sub] = { username, seenAt: Date.now() }
+        return { result: undefined, changed: true }
+      })
+    },
+    async findUserByName(providerId, username) {
+      const data = await exclusive(read)
+      return findKnownUser(data.users?.[providerId] ?? {}, username)
+    },
+    async getUsernames(providerId, subs) {
+      const data = await exclusive(read)
+      return pickUsernames(data.users?.[providerId] ?? {}, subs)
+    },
+  }
+}
+
+interface TodoRow {
+  id: string
+  name: string
+  completed: number
+  created_at: number
+  updated_at: number
+}
+
+const TODOS_COLUMNS = `
+  id TEXT NOT NULL,
+  list TEXT NOT NULL DEFAULT '${GUEST_LIST}',
+  name TEXT NOT NULL,
+  completed INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (list, id)
+`
+
+function fromRow(row: TodoRow): Todo {
+  return {
+    id: row.id,
+    name: row.name,
+    completed: row.completed === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Keeps todos in a SQLite database
+ * Statements run synchronously, so concurrent requests never interleave.
+ */
+export function createSqliteTodoStore(file: string): TodoStore {
+  let database: Promise<DatabaseSync> | null = null
+
+  const insert = (db: DatabaseSync, list: string, todo: Todo) => {
+    db.prepare(
+      'INSERT INTO todos (id, list, name, completed, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(todo.id, list, todo.name, todo.completed ? 1 : 0, todo.createdAt, todo.updatedAt)
+  }
+
+  const find = (db: DatabaseSync, list: string, id: string): Todo | null => {
+    const row = db.prepare('SELECT * FROM todos WHERE list = ? AND id = ?').get(list, id) as
+      | TodoRow
+      | undefined
+    return row ? fromRow(row) : null
+  }
+
+  const readListInfo = (db: DatabaseSync, list: string): TodoListInfo | null => {
+    const row = db
+      .prepare('SELECT provider_id, owner_name, shared_with FROM todo_lists WHERE list = ?')
+      .get(list) as { provider_id: string; owner_name: string; shared_with: string } | undefined
+    return row
+      ? { providerId: row.provider_id, ownerName: row.owner_name, sharedWith: JSON.parse(row.shared_with) }
+      : null
+  }
+
+  const connect = async (): Promise<DatabaseSync> => {
+    let sqlite: typeof import('node:sqlite')
+    try {
+      sqlite = await import('node:sqlite')
+    } catch {
+      throw new Error(
+        `TODO_STORE=sqlite needs Node.js 22.13 or later, or 22.5 with --experimental-sqlite (running ${process.version})`
+      )
+    }
+
+    const db = new sqlite.DatabaseSync(file)
+    // Only a new database gets the default todos, not one whose todos were all deleted
+    const isNew = !db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'todos'").get()
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS todos (${TODOS_COLUMNS});
+      CREATE TABLE IF NOT EXISTS todo_lists (
+        list TEXT PRIMARY KEY,
+        provider_id TEXT NOT NULL,
+        owner_name TEXT NOT NULL,
+        -- JSON array of subjects
+        shared_with TEXT NOT NULL DEFAULT '[]'
+      );
+      CREATE TABLE IF NOT EXISTS todo_users (
+        provider_id TEXT NOT NULL,
+        sub TEXT NOT NULL,
+        username TEXT NOT NULL COLLATE NOCASE,
+        seen_at INTEGER NOT NULL,
+        PRIMARY KEY (provider_id, sub)
+      );
+      CREATE INDEX IF NOT EXISTS todo_users_username ON todo_users (provider_id, username)
+    `)
+
+    // Databases created before lists existed: their todos become the guest list
+    const columns = db.prepare('PRAGMA table_info(todos)').all() as Array<{ name: string; pk: number }>
+    if (!columns.some((column) => column.name === 'list')) {
+      db.exec(`ALTER TABLE todos ADD COLUMN list TEXT NOT NULL DEFAULT '${GUEST_LIST}'`)
+    }
+
+    // Databases keyed by id alone: SQLite can't change a primary key in place
+    if (!columns.some((column) => column.name === 'list' && column.pk > 0)) {
+      db.exec(`
+        BEGIN;
+        CREATE TABLE todos_by_list (${TODOS_COLUMNS});
+        INSERT INTO todos_by_list (id, list, name, completed, created_at, updated_at)
+          SELECT id, list, name, completed, created_at, updated_at FROM todos;
+        DROP TABLE todos;
+        ALTER TABLE todos_by_list RENAME TO todos;
+        COMMIT;
+      `)
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS todos_list ON todos (list, created_at)')
+
+    if (isNew) {
+      for (const todo of createTodos(DEFAULT_TODOS)) {
+        insert(db, GUEST_LIST, todo)
+      }
+    }
+
+    return db
+  }
+
+  // Shared by concurrent first calls so the table is seeded once
+  const open = () => {
+    database ??= connect().catch((error) => {
+      database = null
+      throw error
+    })
+    return database
+  }
+
+  return {
+    async list(list) {
+      const db = await open()
+      const rows = db
+        .prepare('SELECT * FROM todos WHERE list = ? ORDER BY created_at, id')
+        .all(list) as unknown as TodoRow[]
+      return rows.map(fromRow)
+    },
+    async add(list, name, id) {
+      const db = await open()
+      const existing = id && find(db, list, id)
+      if (existing) {
+        return existing
+      }
+      const todo = createTodo(name, id)
+      insert(db, list, todo)
+      return todo
+    },
+    async update(list, id, change) {
+      const db = await open()
+      const todo = find(db, list, id)
+      if (!todo) {
+        return null
+      }
+
+      const updated = applyChange(todo, change)
+      db.prepare('UPDATE todos SET name = ?, completed = ?, updated_at = ? WHERE list = ? AND id = ?').run(
+        updated.name,
+        updated.completed ? 1 : 0,
+        updated.updatedAt,
+        list,
+        id
+      )
+      return updated
+    },
+    async delete(list, id) {
+      const { changes } = (await open()).prepare('DELETE FROM todos WHERE list = ? AND id = ?').run(list, id)
+      return Number(changes) > 0
+    },
+    async deleteCompleted(list) {
+      const { changes } = (await open())
+        .prepare('DELETE FROM todos WHERE list = ? AND completed = 1')
+        .run(list)
+      return Number(changes)
+    },
+    async getListInfo(list) {
+      return readListInfo(await open(), list)
+    },
+    async updateListInfo(list, change) {
+      const db = await open()
+      const info = change(readListInfo(db, list))
+      db.prepare(
+        `INSERT INTO todo_lists (list, provider_id, owner_name, shared_with) VALUES (?, ?, ?, ?)
+         ON CONFLICT (list) DO UPDATE SET
+           provider_id = excluded.provider_id,
+           owner_name = excluded.owner_name,
+           shared_with = excluded.shared_with`
+      ).run(list, info.providerId, info.ownerName, JSON.stringify(info.sharedWith))
+      return info
+    },
+    async listsSharedWith(providerId, sub) {
+      const rows = (await open())
+        .prepare(
+          `SELECT list, owner_name FROM todo_lists
+           WHERE provider_id = ? AND EXISTS (SELECT 1 FROM json_each(shared_with) WHERE value = ?)
+           ORDER BY owner_name`
+        )
+        .all(providerId, sub) as Array<{ list: string; owner_name: string }>
+      return rows.map((row) => ({ list: row.list, ownerName: row.owner_name }))
+    },
+    async saveUsername(providerId, sub, username) {
+      const db = await open()
+      db.prepare(
+        `INSERT INTO todo_users (provider_id, sub, username, seen_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (provider_id, sub) DO UPDATE SET username = excluded.username, seen_at = excluded.seen_at
+         WHERE todo_users.username <> excluded.username COLLATE BINARY`
+      ).run(providerId, sub, username, Date.now())
+    },
+    async findUserByName(providerId, username) {
+      const row = (await open())
+        .prepare('SELECT sub FROM todo_users WHERE provider_id = ? AND username = ? ORDER BY seen_at DESC LIMIT 1')
+        .get(providerId, username) as { sub: string } | undefined
+      return row?.sub ?? null
+    },
+    async getUsernames(providerId, subs) {
+      const rows = (await open())
+        .prepare(
+          `SELECT sub, username FROM todo_users
+           WHERE provider_id = ? AND sub IN (SELECT value FROM json_each(?))`
+        )
+        .all(providerId, JSON.stringify(subs)) as Array<{ sub: string; username: string }>
+      return Object.fromEntries(rows.map((row) => [row.sub, row.username]))
+    },
+  }
+}
+
+/**
+ * Creates the store configured through the environment
+ */
+export function createTodoStore(
+  kind: TodoStoreKind = (process.env.TODO_STORE as TodoStoreKind | undefined) ?? 'file'
+): TodoStore {
+  switch (kind) {
+    case 'file':
+      return createFileTodoStore(process.env.TODO_STORE_FILE ?? 'todos.json')
+    case 'memory':
+      return createMemoryTodoStore()
+    case 'sqlite':
+      return createSqliteTodoStore(process.env.TODO_STORE_SQLITE ?? 'todos.db')
+    default:
+      throw new Error(`Unknown TODO_STORE "${kind}", expected "file", "memory" or "sqlite"`)
+  }
+}
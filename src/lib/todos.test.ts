@@ -0,0 +1,168 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { installMockIdp, signIn } from '@/test/mock-idp'
+import {
+  addTodo,
+  clearCompleted,
+  deleteTodo,
+  getTodos,
+  shareTodoList,
+  toggleTodo,
+  unshareTodoList,
+  updateTodo,
+} from './todos'
+
+beforeAll(() => {
+  installMockIdp()
+  vi.stubEnv('TODO_STORE', 'memory')
+})
+
+// Signs `username` in on an empty list of their own, shared with nobody
+async function signInWithEmptyList(username: string) {
+  clearCookies()
+  await signIn(username)
+  const { todos, sharedWith } = await getTodos()
+  for (const todo of todos) {
+    await deleteTodo({ data: { id: todo.id } })
+  }
+  for (const { sub } of sharedWith) {
+    await unshareTodoList({ data: { sub } })
+  }
+}
+
+// Alice's list, shared with Bob, who is signed in on it
+async function shareAliceListWithBob(): Promise<string> {
+  await signInWithEmptyList('bob')
+  await signInWithEmptyList('alice')
+  await addTodo({ data: { name: 'Plan the party' } })
+  await shareTodoList({ data: { username: 'bob' } })
+  const { list } = await getTodos()
+
+  clearCookies()
+  await signIn('bob')
+  return list
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  await signInWithEmptyList('alice')
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('todos', () => {
+  it("keeps signed-in users' todos on a list of their own", async () => {
+    const todos = await addTodo({ data: { name: '  Water the plants ' } })
+    expect(todos).toEqual([expect.objectContaining({ name: 'Water the plants', completed: false })])
+
+    expect(await getTodos()).toMatchObject({ title: 'My list', owned: true, signedIn: true, todos })
+
+    await signInWithEmptyList('bob')
+    expect((await getTodos()).todos).toEqual([])
+  })
+
+  it('adds a todo under the id the client picked once', async () => {
+    const id = crypto.randomUUID()
+    await addTodo({ data: { id, name: 'Once' } })
+
+    expect(await addTodo({ data: { id, name: 'Once' } })).toEqual([expect.objectContaining({ id, name: 'Once' })])
+  })
+
+  it('renames, completes, reopens and deletes todos', async () => {
+    const [todo] = await addTodo({ data: { name: 'Call mum' } })
+
+    expect((await updateTodo({ data: { id: todo.id, name: 'Call mom' } }))[0].name).toBe('Call mom')
+    expect((await toggleTodo({ data: { id: todo.id } }))[0].completed).toBe(true)
+    expect((await toggleTodo({ data: { id: todo.id } }))[0].completed).toBe(false)
+    expect((await toggleTodo({ data: { id: todo.id, completed: false } }))[0].completed).toBe(false)
+    expect(await deleteTodo({ data: { id: todo.id } })).toEqual([])
+    await expect(deleteTodo({ data: { id: todo.id } })).rejects.toThrow('Todo not found')
+  })
+
+  it('clears completed todos only', async () => {
+    const [done] = await addTodo({ data: { name: 'Done' } })
+    await addTodo({ data: { name: 'Open' } })
+    await toggleTodo({ data: { id: done.id } })
+
+    expect((await clearCompleted()).map((todo) => todo.name)).toEqual(['Open'])
+  })
+
+  it('refuses a change to a todo changed by someone else since, unless it already looks that way', async () => {
+    const [seen] = await addTodo({ data: { name: 'Book flights' } })
+    vi.advanceTimersByTime(1000)
+    await updateTodo({ data: { id: seen.id, name: 'Book trains' } })
+
+    await expect(
+      updateTodo({ data: { id: seen.id, name: 'Book buses', updatedAt: seen.updatedAt } })
+    ).rejects.toThrow('Someone else changed this todo in the meantime')
+    expect(
+      (await updateTodo({ data: { id: seen.id, name: 'Book trains', updatedAt: seen.updatedAt } }))[0].name
+    ).toBe('Book trains')
+  })
+
+  it('puts signed-out visitors on the guest list, and keeps them off the lists of users', async () => {
+    const { list } = await getTodos()
+    clearCookies()
+
+    expect(await getTodos()).toMatchObject({ list: 'guest', title: 'Guest list', owned: false, signedIn: false })
+    await expect(getTodos({ data: { list } })).rejects.toMatchObject({ status: 401 })
+    await expect(addTodo({ data: { list, name: 'Sneaky' } })).rejects.toMatchObject({ status: 401 })
+  })
+})
+
+describe('sharing', () => {
+  it('lets users a list is shared with read and change it', async () => {
+    const list = await shareAliceListWithBob()
+
+    expect((await getTodos()).sharedWithMe).toEqual([{ list, ownerName: 'alice' }])
+    expect(await getTodos({ data: { list } })).toMatchObject({
+      title: "alice's list",
+      owned: false,
+      sharedWith: [],
+      todos: [expect.objectContaining({ name: 'Plan the party' })],
+    })
+    expect(await addTodo({ data: { list, name: 'Bring cake' } })).toHaveLength(2)
+  })
+
+  it('shows the owner who the list is shared with, by username, and keeps subjects in the share', async () => {
+    await signInWithEmptyList('bob')
+    const bob = (await getTodos()).list.split(':')[1]
+    await signInWithEmptyList('alice')
+
+    expect(await shareTodoList({ data: { username: 'BOB' } })).toEqual([{ sub: bob, username: 'bob' }])
+    expect((await getTodos()).sharedWith).toEqual([{ sub: bob, username: 'bob' }])
+  })
+
+  it('takes access back', async () => {
+    const list = await shareAliceListWithBob()
+    const bob = (await getTodos()).list.split(':')[1]
+
+    clearCookies()
+    await signIn('alice')
+    expect(await unshareTodoList({ data: { sub: bob } })).toEqual([])
+
+    clearCookies()
+    await signIn('bob')
+    await expect(getTodos({ data: { list } })).rejects.toMatchObject({
+      status: 403,
+      message: 'This list is not shared with you',
+    })
+    expect((await getTodos()).sharedWithMe).toEqual([])
+  })
+
+  it('finds only users who opened the todo list, and not the owner', async () => {
+    await expect(shareTodoList({ data: { username: 'carol' } })).rejects.toMatchObject({
+      fieldErrors: { username: ['No user named "carol" has opened the todo list yet'] },
+    })
+    await expect(shareTodoList({ data: { username: 'alice' } })).rejects.toMatchObject({
+      fieldErrors: { username: ['You cannot share a list with yourself'] },
+    })
+  })
+
+  it('is for signed-in users only', async () => {
+    clearCookies()
+    await expect(shareTodoList({ data: { username: 'bob' } })).rejects.toMatchObject({ status: 401 })
+  })
+})
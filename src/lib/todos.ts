@@ -0,0 +1,265 @@
+/**
+ * Todo list of the server functions demo
+ * Server functions reading and changing the todos kept in the configured
+ * TodoStore (see todo-store.ts). Every mutation returns the updated list.
+ *
+ * Signed-in users get their own list, named after their provider and token
+ * subject, and may share it with other users of the same provider; those
+ * users can then read and change it too. Owners enter and see usernames, but
+ * shares hold subjects: usernames can be edited, and then taken by someone
+ * else. Only users who opened the todo list before can be found by name.
+ * Signed-out visitors all work on the guest list.
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { forbidden, unauthorized } from './auth-errors'
+import { authMiddleware, optionalAuthMiddleware } from './auth-guard'
+import { optionalText, requiredText, validateInput } from './input-validation'
+import type { AuthSession } from './session'
+import { createTodoStore, GUEST_LIST, type Todo, type TodoChange, type TodoStore } from './todo-store'
+import { ValidationError } from './validation-errors'
+
+export type { Todo } from './todo-store'
+
+export interface TodoListView {
+  // Passed back as `list` to work on this list
+  list: string
+  title: string
+  owned: boolean
+  todos: Todo[]
+  // Users the list is shared with, for its owner only
+  sharedWith: SharedWithUser[]
+  // Lists other users shared with the caller
+  sharedWithMe: Array<{ list: string; ownerName: string }>
+  signedIn: boolean
+}
+
+export interface SharedWithUser {
+  sub: string
+  // As last seen, the subject itself for users not seen since sharing
+  username: string
+}
+
+let todoStore: TodoStore | null = null
+
+const getTodoStore = createServerOnlyFn(() => {
+  todoStore ??= createTodoStore()
+  return todoStore
+})
+
+function subjectOf(session: AuthSession): string {
+  const { sub } = session.data.user
+  if (!sub) {
+    throw new Error('The session has no subject to own a todo list')
+  }
+  return sub
+}
+
+function ownList(session: AuthSession): string {
+  return `${session.data.providerId}:${subjectOf(session)}`
+}
+
+function displayName(session: AuthSession): string {
+  const { user } = session.data
+  return user.preferred_username ?? user.name ?? user.email ?? 'Unknown user'
+}
+
+/**
+ * Resolves the list a caller asked for: their own one when none is given,
+ * otherwise one they own or that was shared with them
+ */
+const resolveList = createServerOnlyFn(async (session: AuthSession | null, list?: string): Promise<string> => {
+  if (!session) {
+    if (list && list !== GUEST_LIST) {
+      throw unauthorized('Sign in to open this list')
+    }
+    return GUEST_LIST
+  }
+
+  const own = ownList(session)
+  if (!list || list === own) {
+    return own
+  }
+
+  const info = await getTodoStore().getListInfo(list)
+  if (!info || info.providerId !== session.data.providerId || !info.sharedWith.includes(subjectOf(session))) {
+    throw forbidden('This list is not shared with you')
+  }
+  return list
+})
+
+/**
+ * Applies a change to the todo with the given id and returns the list. With
+ * `since`, the todo's `updatedAt` when the caller last saw it, the change is
+ * refused when someone else changed the todo in between, unless the todo
+ * already looks the way the caller wants.
+ */
+async function updateStoredTodo(list: string, id: string, change: (todo: Todo) => TodoChange, since?: number) {
+  const store = getTodoStore()
+  const updated = await store.update(list, id, (todo) => {
+    const next = change(todo)
+    const applied = Object.entries(next).every(([key, value]) => todo[key as keyof Todo] === value)
+    if (since !== undefined && todo.updatedAt !== since && !applied) {
+      throw new Error('Someone else changed this todo in the meantime')
+    }
+    return next
+  })
+  if (!updated) {
+    throw new Error('Todo not found, it may have been deleted')
+  }
+  return await store.list(list)
+}
+
+const listKey = optionalText('List', 512)
+const todoId = requiredText('Todo id', 64)
+const seenUpdatedAt = z.number().int().nonnegative().optional()
+const todoName = requiredText('Todo name', 200)
+const username = requiredText('Username', 255)
+const subject = requiredText('User', 255)
+
+// Pairs the subjects a list is shared with with their usernames
+const describeSharing = createServerOnlyFn(
+  async (providerId: string, sharedWith: string[]): Promise<SharedWithUser[]> => {
+    const usernames = await getTodoStore().getUsernames(providerId, sharedWith)
+    return sharedWith.map((sub) => ({ sub, username: usernames[sub] ?? sub }))
+  }
+)
+
+// Server function loading a list with its sharing details
+export const getTodos = createServerFn({ method: 'GET' })
+  .middleware([optionalAuthMiddleware])
+  .inputValidator(validateInput(z.object({ list: listKey }).optional()))
+  .handler(async ({ data, context: { session } }): Promise<TodoListView> => {
+    const store = getTodoStore()
+    const list = await resolveList(session, data?.list)
+    const todos = await store.list(list)
+
+    if (!session) {
+      return { list, title: 'Guest list', owned: false, todos, sharedWith: [], sharedWithMe: [], signedIn: false }
+    }
+
+    const { providerId, user } = session.data
+    const sub = subjectOf(session)
+    if (user.preferred_username) {
+      await store.saveUsername(providerId, sub, user.preferred_username)
+    }
+
+    const owned = list === ownList(session)
+    const info = await store.getListInfo(list)
+    return {
+      list,
+      title: owned ? 'My list' : `${info!.ownerName}'s list`,
+      owned,
+      todos,
+      sharedWith: owned && info ? await describeSharing(providerId, info.sharedWith) : [],
+      sharedWithMe: await store.listsSharedWith(providerId, sub),
+      signedIn: true,
+    }
+  })
+
+// Server function adding a todo, under the id the client picked when given
+export const addTodo = createServerFn({ method: 'POST' })
+  .middleware([optionalAuthMiddleware])
+  .inputValidator(
+    validateInput(z.object({ list: listKey, id: z.string().uuid('Todo id must be a UUID').optional(), name: todoName }))
+  )
+  .handler(async ({ data, context: { session } }) => {
+    const store = getTodoStore()
+    const list = await resolveList(session, data.list)
+    await store.add(list, data.name, data.id)
+    return await store.list(list)
+  })
+
+// Server function renaming a todo, see `updateStoredTodo` for `updatedAt`
+export const updateTodo = createServerFn({ method: 'POST' })
+  .middleware([optionalAuthMiddleware])
+  .inputValidator(validateInput(z.object({ list: listKey, id: todoId, name: todoName, updatedAt: seenUpdatedAt })))
+  .handler(
+    async ({ data, context: { session } }) =>
+      await updateStoredTodo(
+        await resolveList(session, data.list),
+        data.id,
+        () => ({ name: data.name }),
+        data.updatedAt
+      )
+  )
+
+// Server function completing or reopening a todo, flipping it when `completed` is omitted
+export const toggleTodo = createServerFn({ method: 'POST' })
+  .middleware([optionalAuthMiddleware])
+  .inputValidator(
+    validateInput(z.object({ list: listKey, id: todoId, completed: z.boolean().optional(), updatedAt: seenUpdatedAt }))
+  )
+  .handler(
+    async ({ data, context: { session } }) =>
+      await updateStoredTodo(
+        await resolveList(session, data.list),
+        data.id,
+        (todo) => ({ completed: data.completed ?? !todo.completed }),
+        data.updatedAt
+      )
+  )
+
+// Server function deleting a todo
+export const deleteTodo = createServerFn({ method: 'POST' })
+  .middleware([optionalAuthMiddleware])
+  .inputValidator(validateInput(z.object({ list: listKey, id: todoId })))
+  .handler(async ({ data, context: { session } }) => {
+    const store = getTodoStore()
+    const list = await resolveList(session, data.list)
+    if (!(await store.delete(list, data.id))) {
+      throw new Error('Todo not found, it may have been deleted')
+    }
+    return await store.list(list)
+  })
+
+// Server function deleting every completed todo
+export const clearCompleted = createServerFn({ method: 'POST' })
+  .middleware([optionalAuthMiddleware])
+  .inputValidator(validateInput(z.object({ list: listKey }).optional()))
+  .handler(async ({ data, context: { session } }) => {
+    const store = getTodoStore()
+    const list = await resolveList(session, data?.list)
+    await store.deleteCompleted(list)
+    return await store.list(list)
+  })
+
+// Server function sharing the caller's own list with another user of their provider
+export const shareTodoList = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(validateInput(z.object({ username })))
+  .handler(async ({ data, context: { session } }) => {
+    const { providerId } = session.data
+    const store = getTodoStore()
+    const sub = await store.findUserByName(providerId, data.username)
+    if (!sub) {
+      throw new ValidationError({
+        username: [`No user named "${data.username}" has opened the todo list yet`],
+      })
+    }
+    if (sub === subjectOf(session)) {
+      throw new ValidationError({ username: ['You cannot share a list with yourself'] })
+    }
+
+    const info = await store.updateListInfo(ownList(session), (current) => ({
+      providerId,
+      ownerName: displayName(session),
+      sharedWith: current?.sharedWith.includes(sub) ? current.sharedWith : [...(current?.sharedWith ?? []), sub],
+    }))
+    return await describeSharing(providerId, info.sharedWith)
+  })
+
+// Server function taking back access to the caller's own list
+export const unshareTodoList = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(validateInput(z.object({ sub: subject })))
+  .handler(async ({ data, context: { session } }) => {
+    const { providerId } = session.data
+    const info = await getTodoStore().updateListInfo(ownList(session), (current) => ({
+      providerId,
+      ownerName: displayName(session),
+      sharedWith: (current?.sharedWith ?? []).filter((shared) => shared !== data.sub),
+    }))
+    return await describeSharing(providerId, info.sharedWith)
+  })
@@ -0,0 +1,77 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { installMockIdp, signIn } from '@/test/mock-idp'
+import { getProvider } from './idp-registry'
+import { readSession } from './session'
+import { introspectToken, revokeToken } from './token-introspection'
+
+beforeAll(() => {
+  installMockIdp()
+})
+
+beforeEach(async () => {
+  clearCookies()
+  await signIn('alice')
+})
+
+describe('token introspection', () => {
+  it("reports the session's access token as active, with what it grants", async () => {
+    const status = await introspectToken({ data: {} })
+
+    expect(status).toMatchObject({
+      active: true,
+      token_type: 'Bearer',
+      username: 'alice',
+      client_id: getProvider('mock').clientId,
+    })
+  })
+
+  it('introspects the refresh token when asked for it', async () => {
+    const status = await introspectToken({ data: { tokenTypeHint: 'refresh_token' } })
+
+    expect(status).toMatchObject({ active: true, token_type: 'Refresh', username: 'alice' })
+  })
+
+  it('reports tokens the provider does not know as inactive', async () => {
+    expect(await introspectToken({ data: { token: 'not-a-token-the-provider-issued' } })).toEqual({ active: false })
+  })
+
+  it('refuses a token type hint other than access or refresh token', async () => {
+    // What a caller other than the app's pages could send
+    const data = { tokenTypeHint: 'id_token' } as unknown as Parameters<typeof introspectToken>[0]['data']
+
+    await expect(introspectToken({ data })).rejects.toMatchObject({
+      fieldErrors: { tokenTypeHint: ['Token type hint must be access_token or refresh_token'] },
+    })
+  })
+
+  it('is for signed-in users only', async () => {
+    clearCookies()
+    await expect(introspectToken({ data: {} })).rejects.toMatchObject({ status: 401 })
+  })
+})
+
+describe('token revocation', () => {
+  it('revokes the access token and keeps the session, which can still refresh', async () => {
+    const { accessToken } = (await readSession())!.data
+
+    expect(await revokeToken({ data: {} })).toEqual({ revoked: true, signedOut: false })
+    expect(await introspectToken({ data: { token: accessToken } })).toEqual({ active: false })
+    expect(await readSession()).not.toBeNull()
+  })
+
+  it('signs out once the refresh token is revoked', async () => {
+    const { refreshToken } = (await readSession())!.data
+
+    expect(await revokeToken({ data: { tokenTypeHint: 'refresh_token' } })).toEqual({
+      revoked: true,
+      signedOut: true,
+    })
+    expect(await readSession()).toBeNull()
+
+    await signIn('alice')
+    expect(await introspectToken({ data: { token: refreshToken!, tokenTypeHint: 'refresh_token' } })).toEqual({
+      active: false,
+    })
+  })
+})
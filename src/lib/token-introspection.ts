@@ -0,0 +1,173 @@
+/**
+ * Token introspection (RFC 7662) and revocation (RFC 7009)
+ * Server functions asking the provider about a token, or telling it to drop one,
+ * authenticated with the configured client credentials
+ *
+ * Both default to the current session's tokens. Keycloak only introspects for
+ * confidential clients, so public clients get the provider's error back.
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { authMiddleware } from './auth-guard'
+import { getDiscoveryMetadata } from './discovery-client'
+import { clientCredentials, getProvider, type IdentityProviderConfig } from './idp-registry'
+import { optionalText, validateInput } from './input-validation'
+import { destroySession, type AuthSession } from './session'
+
+export type TokenTypeHint = 'access_token' | 'refresh_token'
+
+export interface IntrospectionResponse {
+  active: boolean
+  scope?: string
+  client_id?: string
+  username?: string
+  token_type?: string
+  exp?: number
+  iat?: number
+  nbf?: number
+  sub?: string
+  aud?: string | string[]
+  iss?: string
+  jti?: string
+}
+
+// A function, not a constant, so client bundles drop it along with the validators
+function tokenRequestInput() {
+  return z.object({
+    // Defaults to the session's token of type `tokenTypeHint`
+    token: optionalText('Token', 16384),
+    tokenTypeHint: z
+      .enum(['access_token', 'refresh_token'], {
+        errorMap: () => ({ message: 'Token type hint must be access_token or refresh_token' }),
+      })
+      .optional(),
+  })
+}
+
+type TokenRequest = z.output<ReturnType<typeof tokenRequestInput>>
+
+async function postTokenRequest(
+  endpoint: string | undefined,
+  name: string,
+  provider: IdentityProviderConfig,
+  clientId: string,
+  token: string,
+  tokenTypeHint: TokenTypeHint
+): Promise<Response> {
+  if (!endpoint) {
+    throw new Error(`Provider "${provider.id}" does not advertise a ${name} endpoint`)
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: new URLSearchParams({
+      ...clientCredentials(provider, clientId),
+      token,
+      token_type_hint: tokenTypeHint,
+    }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(
+      errorData.error_description ||
+      errorData.error ||
+      `Token ${name} failed (${response.status})`
+    )
+  }
+
+  return response
+}
+
+/**
+ * Asks the provider whether a token is active, and what it grants
+ */
+export const introspect = createServerOnlyFn(
+  async (
+    provider: IdentityProviderConfig,
+    clientId: string,
+    token: string,
+    tokenTypeHint: TokenTypeHint = 'access_token'
+  ): Promise<IntrospectionResponse> => {
+    const metadata = await getDiscoveryMetadata(provider)
+    const response = await postTokenRequest(
+      metadata.introspection_endpoint,
+      'introspection',
+      provider,
+      clientId,
+      token,
+      tokenTypeHint
+    )
+    return response.json()
+  }
+)
+
+/**
+ * Revokes a token. Unknown or already invalid tokens are not an error (RFC 7009 §2.2).
+ */
+export const revoke = createServerOnlyFn(
+  async (
+    provider: IdentityProviderConfig,
+    clientId: string,
+    token: string,
+    tokenTypeHint: TokenTypeHint = 'access_token'
+  ): Promise<void> => {
+    const metadata = await getDiscoveryMetadata(provider)
+    await postTokenRequest(
+      metadata.revocation_endpoint,
+      'revocation',
+      provider,
+      clientId,
+      token,
+      tokenTypeHint
+    )
+  }
+)
+
+function resolveToken(session: AuthSession, data: TokenRequest) {
+  const tokenTypeHint = data.tokenTypeHint ?? 'access_token'
+  const token =
+    data.token ??
+    (tokenTypeHint === 'refresh_token' ? session.data.refreshToken : session.data.accessToken)
+
+  if (!token) {
+    throw new Error(`The session has no ${tokenTypeHint.replace('_', ' ')}`)
+  }
+
+  return { token, tokenTypeHint }
+}
+
+// Server function introspecting a token, the session's access token by default
+export const introspectToken = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(validateInput(tokenRequestInput()))
+  .handler(async ({ data, context }) => {
+    const { session } = context
+    const { token, tokenTypeHint } = resolveToken(session, data)
+
+    return introspect(getProvider(session.data.providerId), session.data.clientId, token, tokenTypeHint)
+  })
+
+// Server function revoking a token, the session's access token by default
+export const revokeToken = createServerFn({ method: 'POST' })
+  .middleware([authMiddleware])
+  .inputValidator(validateInput(tokenRequestInput()))
+  .handler(async ({ data, context }) => {
+    const { session } = context
+    const { token, tokenTypeHint } = resolveToken(session, data)
+
+    await revoke(getProvider(session.data.providerId), session.data.clientId, token, tokenTypeHint)
+
+    // Without its refresh token the session cannot be renewed, sign out now
+    const signedOut = token === session.data.refreshToken
+    if (signedOut) {
+      await destroySession()
+    }
+
+    return { revoked: true, signedOut }
+  })
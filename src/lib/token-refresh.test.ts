@@ -0,0 +1,163 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { installMockIdp, signIn } from '@/test/mock-idp'
+import { readSession } from './session'
+import { getValidSession, refreshAuthSession } from './token-refresh'
+
+// The mock provider's access tokens last 300 seconds
+const ALMOST_EXPIRED = 270 * 1000
+const EXPIRED = 301 * 1000
+
+let providerFetch: typeof fetch
+let fetchSpy: MockInstance<typeof fetch>
+
+beforeAll(() => {
+  installMockIdp()
+  providerFetch = globalThis.fetch
+  fetchSpy = vi.spyOn(globalThis, 'fetch')
+})
+
+beforeEach(async () => {
+  clearCookies()
+  fetchSpy.mockImplementation(providerFetch)
+  vi.useFakeTimers({ toFake: ['Date'] })
+  await signIn()
+  fetchSpy.mockClear()
+})
+
+function isRefreshRequest(init?: RequestInit): boolean {
+  return init?.body instanceof URLSearchParams && init.body.get('grant_type') === 'refresh_token'
+}
+
+function refreshRequests(): number {
+  return fetchSpy.mock.calls.filter(([, init]) => isRefreshRequest(init)).length
+}
+
+// Answers refresh requests in place of the provider, given its own answer
+function interceptRefresh(answer: (response: Response) => Response | Promise<Response>) {
+  fetchSpy.mockImplementation(async (input, init) => {
+    const response = await providerFetch(input, init)
+    return isRefreshRequest(init) ? await answer(response) : response
+  })
+}
+
+// The same JWT claiming to be signed with another key
+function withKid(jwt: string, kid: string): string {
+  const [header, ...rest] = jwt.split('.')
+  const decoded = JSON.parse(Buffer.from(header, 'base64url').toString())
+  return [Buffer.from(JSON.stringify({ ...decoded, kid })).toString('base64url'), ...rest].join('.')
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('refresh token rotation', () => {
+  it('leaves a fresh access token alone', async () => {
+    const session = await readSession()
+    expect(await getValidSession()).toEqual(session)
+  })
+
+  it('renews the tokens shortly before the access token expires', async () => {
+    const before = (await readSession())!
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+
+    const after = (await getValidSession())!
+    expect(after.id).toBe(before.id)
+    expect(after.data.accessToken).not.toBe(before.data.accessToken)
+    expect(after.data.refreshToken).not.toBe(before.data.refreshToken)
+    expect(after.data.accessTokenExpiresAt).toBeGreaterThan(before.data.accessTokenExpiresAt)
+    expect(await readSession()).toEqual(after)
+  })
+
+  it('cannot use a rotated refresh token twice', async () => {
+    const before = (await readSession())!
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+    await getValidSession()
+
+    // A copy of the session from before the rotation
+    expect(await refreshAuthSession(before)).toBeNull()
+  })
+
+  it('keeps renewing with the latest refresh token', async () => {
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(ALMOST_EXPIRED)
+      expect(await getValidSession()).not.toBeNull()
+    }
+    expect((await readSession())?.data.user.preferred_username).toBe('alice')
+  })
+})
+
+describe('concurrent refreshes', () => {
+  it('share a single request to the token endpoint', async () => {
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+
+    const sessions = await Promise.all([getValidSession(), getValidSession(), getValidSession()])
+    expect(refreshRequests()).toBe(1)
+    expect(new Set(sessions.map((session) => session?.data.accessToken)).size).toBe(1)
+    expect(await readSession()).toEqual(sessions[0])
+  })
+})
+
+describe('failed refreshes', () => {
+  it('keep the session while the access token lasts when the provider is unreachable', async () => {
+    const before = await readSession()
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+    interceptRefresh(() => {
+      throw new TypeError('fetch failed')
+    })
+
+    expect(await getValidSession()).toEqual(before)
+    expect(await readSession()).toEqual(before)
+  })
+
+  it('keep the session while the access token lasts when the provider has an error', async () => {
+    const before = await readSession()
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+    interceptRefresh(() => Response.json({ error: 'temporarily_unavailable' }, { status: 503 }))
+
+    expect(await getValidSession()).toEqual(before)
+  })
+
+  it('sign the user out once the access token expired during an outage', async () => {
+    vi.advanceTimersByTime(EXPIRED)
+    interceptRefresh(() => {
+      throw new TypeError('fetch failed')
+    })
+
+    await expect(getValidSession()).rejects.toThrow('fetch failed')
+    expect(await readSession()).toBeNull()
+  })
+
+  it('sign the user out when the provider refuses the refresh token', async () => {
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+    interceptRefresh(() => Response.json({ error: 'invalid_grant' }, { status: 400 }))
+
+    expect(await getValidSession()).toBeNull()
+    expect(await readSession()).toBeNull()
+  })
+
+  it('keep the rotated refresh token when the new tokens cannot be checked yet', async () => {
+    const before = (await readSession())!
+    vi.advanceTimersByTime(ALMOST_EXPIRED)
+    // Signed with a key the provider does not publish yet
+    interceptRefresh(async (response) => {
+      const tokens = await response.json()
+      return Response.json({
+        ...tokens,
+        access_token: withKid(tokens.access_token, 'next-key'),
+        id_token: tokens.id_token && withKid(tokens.id_token, 'next-key'),
+      })
+    })
+
+    expect(await getValidSession()).toEqual(before)
+    const kept = (await readSession())!
+    expect(kept.data.accessToken).toBe(before.data.accessToken)
+    expect(kept.data.refreshToken).not.toBe(before.data.refreshToken)
+
+    // The old refresh token is spent, the next attempt works with the rotated one
+    fetchSpy.mockImplementation(providerFetch)
+    const after = (await getValidSession())!
+    expect(after.data.accessToken).not.toBe(before.data.accessToken)
+  })
+})
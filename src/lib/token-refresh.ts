@@ -0,0 +1,164 @@
+/**
+ * Access token refresh
+ * Renews the session's access token shortly before it expires
+ *
+ * Keycloak may rotate the refresh token on every use, which invalidates the
+ * previous one. Concurrent refreshes of the same session therefore share a
+ * single request to the token endpoint.
+ *
+ * Only a refresh token the provider refuses (invalid_grant) or tokens that
+ * fail verification sign the user out. Outages, of the token endpoint or of
+ * the keys needed to check the new tokens, keep the session while its access
+ * token lasts.
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { getDiscoveryMetadata } from './discovery-client'
+import { isTokenRejectedError, verifyTokenResponse, type TokenResponse } from './keycloak-auth'
+import type { TokenVerificationErrorCode } from './jwt-verify'
+import { clientCredentials, getProvider } from './idp-registry'
+import { getProviderAdapter } from './provider-adapters'
+import {
+  applyTokens,
+  destroySession,
+  isSessionExpired,
+  readSession,
+  saveSession,
+  toSessionView,
+  type AuthSession,
+} from './session'
+
+// Refresh this long before the access token expires (milliseconds)
+export const REFRESH_LEEWAY = 60 * 1000
+
+// Verification failures that say nothing about the tokens: the keys could not
+// be fetched, or a rotated key is not picked up yet
+const TRANSIENT_VERIFICATION_ERRORS: TokenVerificationErrorCode[] = ['jwks_unavailable', 'unknown_key']
+
+const pendingRefreshes = new Map<string, Promise<AuthSession | null>>()
+
+export function needsRefresh(session: AuthSession): boolean {
+  return session.data.accessTokenExpiresAt - REFRESH_LEEWAY <= Date.now()
+}
+
+async function requestRefresh(session: AuthSession): Promise<AuthSession | null> {
+  if (!session.data.refreshToken) {
+    return null
+  }
+
+  const provider = getProvider(session.data.providerId)
+  const metadata = await getDiscoveryMetadata(provider)
+  const response = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      ...clientCredentials(provider, session.data.clientId),
+      refresh_token: session.data.refreshToken,
+    }),
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    // The refresh token expired, was revoked or already rotated
+    if (errorData.error === 'invalid_grant') {
+      return null
+    }
+    throw new Error(errorData.error_description || errorData.error || `Token refresh failed (${response.status})`)
+  }
+
+  const tokens: TokenResponse = await response.json()
+  try {
+    await verifyTokenResponse(tokens, {
+      metadata,
+      clientId: session.data.clientId,
+      jwtAccessToken: getProviderAdapter(provider.type).jwtAccessTokens,
+    })
+  } catch (error) {
+    if (!isTokenRejectedError(error) || !TRANSIENT_VERIFICATION_ERRORS.includes(error.code)) {
+      return null
+    }
+    // The old refresh token may be spent already: keep the rotated one for the
+    // next attempt, but none of the tokens that could not be checked
+    if (tokens.refresh_token) {
+      await saveSession({ id: session.id, data: { ...session.data, refreshToken: tokens.refresh_token } })
+    }
+    throw error
+  }
+
+  const refreshed = { id: session.id, data: applyTokens(session.data, tokens) }
+  await saveSession(refreshed)
+
+  return refreshed
+}
+
+/**
+ * Refreshes a session, sharing the in-flight request with concurrent callers
+ */
+export const refreshAuthSession = createServerOnlyFn(
+  (session: AuthSession): Promise<AuthSession | null> => {
+    const pending = pendingRefreshes.get(session.id)
+    if (pending) {
+      return pending
+    }
+
+    const refresh = requestRefresh(session).finally(() => {
+      pendingRefreshes.delete(session.id)
+    })
+    pendingRefreshes.set(session.id, refresh)
+
+    return refresh
+  }
+)
+
+/**
+ * Returns the current session with an access token that is valid for at
+ * least REFRESH_LEEWAY, or null after signing the user out
+ */
+export const getValidSession = createServerOnlyFn(
+  async (options: { force?: boolean } = {}): Promise<AuthSession | null> => {
+    const session = await readSession()
+    if (!session) {
+      return null
+    }
+
+    if (isSessionExpired(session.data)) {
+      await destroySession()
+      return null
+    }
+
+    if (!options.force && !needsRefresh(session)) {
+      return session
+    }
+
+    try {
+      const refreshed = await refreshAuthSession(session)
+      if (!refreshed) {
+        await destroySession()
+      }
+      return refreshed
+    } catch (error) {
+      // Keycloak is unreachable: keep going while the current token still works
+      if (session.data.accessTokenExpiresAt > Date.now()) {
+        return session
+      }
+      await destroySession()
+      throw error
+    }
+  }
+)
+
+/**
+ * Access token for server functions that call Keycloak on the user's behalf
+ */
+export const getValidAccessToken = createServerOnlyFn(async (): Promise<string | null> => {
+  const session = await getValidSession()
+  return session?.data.accessToken ?? null
+})
+
+// Server function renewing the access token ahead of its expiry
+export const refreshSession = createServerFn({ method: 'POST' }).handler(async () =>
+  toSessionView(await getValidSession({ force: true }))
+)
@@ -0,0 +1,114 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCookies } from '@/test/react-start-server'
+import { APP_ORIGIN, installMockIdp, signIn } from '@/test/mock-idp'
+import { invalidateDiscoveryCache } from './discovery-client'
+import { getProvider } from './idp-registry'
+import { decodeJwt } from './jwt'
+import type { MockOidcProvider } from './mock-oidc-provider'
+import { readSession } from './session'
+import { revokeToken } from './token-introspection'
+import { getUserinfo } from './userinfo'
+
+const ISSUER = `${APP_ORIGIN}/mock-idp/realms/mock`
+
+let idp: MockOidcProvider
+
+beforeAll(() => {
+  idp = installMockIdp()
+})
+
+beforeEach(async () => {
+  clearCookies()
+  await signIn('alice')
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  invalidateDiscoveryCache()
+})
+
+// Has the provider sign userinfo responses, answering with a JWT of `claims`
+function answerWithJwt(claims: Record<string, unknown>) {
+  const fetchFromProvider = globalThis.fetch
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = String(input)
+    if (url.endsWith('/userinfo')) {
+      return new Response(await idp.sign(claims), { headers: { 'Content-Type': 'application/jwt' } })
+    }
+    const response = await fetchFromProvider(input, init)
+    if (!url.endsWith('/.well-known/openid-configuration')) {
+      return response
+    }
+    return Response.json({ ...(await response.json()), userinfo_signing_alg_values_supported: ['RS256'] })
+  })
+  invalidateDiscoveryCache()
+}
+
+async function signedInSub(): Promise<string> {
+  return decodeJwt((await readSession())!.data.idToken!).sub as string
+}
+
+describe('userinfo', () => {
+  it('shows the standard claims in the order of the spec', async () => {
+    const result = await getUserinfo()
+
+    expect(result.format).toBe('json')
+    expect(result.standard.map((claim) => claim.name)).toEqual([
+      'sub',
+      'name',
+      'given_name',
+      'family_name',
+      'preferred_username',
+      'email',
+      'email_verified',
+    ])
+    expect(result.standard).toContainEqual({ name: 'email_verified', value: 'true' })
+    expect(result.custom).toEqual([])
+    expect(result.accountConsoleUrl).toBe(`${ISSUER}/account`)
+  })
+
+  it('verifies signed responses and keeps their JWT claims apart from the user', async () => {
+    answerWithJwt({
+      iss: ISSUER,
+      aud: getProvider('mock').clientId,
+      iat: Math.floor(Date.now() / 1000),
+      sub: await signedInSub(),
+      preferred_username: 'alice',
+      department: 'Research',
+    })
+    const result = await getUserinfo()
+
+    expect(result.format).toBe('jwt')
+    expect(result.standard).toEqual([
+      { name: 'sub', value: await signedInSub() },
+      { name: 'preferred_username', value: 'alice' },
+    ])
+    expect(result.custom).toEqual([{ name: 'department', value: 'Research' }])
+  })
+
+  it('refuses a signed response addressed to another client', async () => {
+    answerWithJwt({ iss: ISSUER, aud: 'other-app', sub: await signedInSub() })
+
+    await expect(getUserinfo()).rejects.toThrow(
+      `Userinfo response rejected: Token is not intended for "${getProvider('mock').clientId}"`
+    )
+  })
+
+  it('refuses a response about another user', async () => {
+    answerWithJwt({ iss: ISSUER, aud: getProvider('mock').clientId, sub: 'someone-else' })
+
+    await expect(getUserinfo()).rejects.toThrow('Userinfo response is about a different user')
+  })
+
+  it('reports the provider refusing the access token', async () => {
+    await revokeToken({ data: {} })
+
+    await expect(getUserinfo()).rejects.toThrow('Userinfo request failed (401)')
+  })
+
+  it('is for signed-in users only', async () => {
+    clearCookies()
+
+    await expect(getUserinfo()).rejects.toMatchObject({ status: 401 })
+  })
+})
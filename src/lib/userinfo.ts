@@ -0,0 +1,150 @@
+/**
+ * UserInfo endpoint (OpenID Connect Core 1.0 §5.3)
+ * Server function fetching the signed-in user's claims from the provider with
+ * the session's access token
+ *
+ * Providers answer with JSON, or with a signed JWT (`application/jwt`) when
+ * the client is configured for signed userinfo; the JWT is verified against
+ * the provider's keys before its claims are trusted.
+ */
+
+import { createServerFn, createServerOnlyFn } from '@tanstack/react-start'
+import { authMiddleware } from './auth-guard'
+import { getDiscoveryMetadata } from './discovery-client'
+import { getProvider } from './idp-registry'
+import { verifyJwt } from './jwt-verify'
+import { getProviderAdapter } from './provider-adapters'
+import type { AuthSession } from './session'
+
+/**
+ * Standard claims, OpenID Connect Core 1.0 §5.1
+ */
+export const STANDARD_CLAIMS = [
+  'sub',
+  'name',
+  'given_name',
+  'family_name',
+  'middle_name',
+  'nickname',
+  'preferred_username',
+  'profile',
+  'picture',
+  'website',
+  'email',
+  'email_verified',
+  'gender',
+  'birthdate',
+  'zoneinfo',
+  'locale',
+  'phone_number',
+  'phone_number_verified',
+  'address',
+  'updated_at',
+]
+
+// Added by the JWT form of the response, not claims about the user
+const JWT_CLAIMS = ['iss', 'aud', 'iat', 'exp', 'nbf', 'jti']
+
+export interface UserinfoClaim {
+  name: string
+  // Strings as they are, anything else as JSON
+  value: string
+}
+
+export interface UserinfoResult {
+  format: 'json' | 'jwt'
+  standard: UserinfoClaim[]
+  custom: UserinfoClaim[]
+  accountConsoleUrl: string | null
+}
+
+function toClaim(name: string, value: unknown): UserinfoClaim {
+  return { name, value: typeof value === 'string' ? value : JSON.stringify(value) }
+}
+
+/**
+ * Calls the userinfo endpoint for a session and returns the verified claims
+ */
+export const fetchUserinfo = createServerOnlyFn(
+  async (session: AuthSession): Promise<{ format: UserinfoResult['format']; claims: Record<string, unknown> }> => {
+    const metadata = await getDiscoveryMetadata(getProvider(session.data.providerId))
+    if (!metadata.userinfo_endpoint) {
+      throw new Error(`Provider "${session.data.providerId}" does not advertise a userinfo endpoint`)
+    }
+
+    const response = await fetch(metadata.userinfo_endpoint, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${session.data.accessToken}`,
+        'Accept': 'application/json, application/jwt',
+      },
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      // Bearer token errors come in WWW-Authenticate (RFC 6750 §3)
+      const challenge = /error_description="([^"]*)"/.exec(response.headers.get('WWW-Authenticate') ?? '')
+      throw new Error(
+        errorData.error_description ||
+        errorData.error ||
+        challenge?.[1] ||
+        `Userinfo request failed (${response.status})`
+      )
+    }
+
+    let format: UserinfoResult['format']
+    let claims: Record<string, unknown>
+    if (response.headers.get('Content-Type')?.startsWith('application/jwt')) {
+      // §5.3.2: signed responses carry iss and aud, but usually no exp
+      const result = await verifyJwt((await response.text()).trim(), {
+        metadata,
+        algorithms: metadata.userinfo_signing_alg_values_supported,
+        audience: session.data.clientId,
+        requireExpiry: false,
+      })
+      if (!result.valid) {
+        throw new Error(`Userinfo response rejected: ${result.error.message}`)
+      }
+      format = 'jwt'
+      claims = result.claims
+    } else {
+      format = 'json'
+      claims = await response.json()
+    }
+
+    // §5.3.4: the response must be about the signed-in user
+    if (claims.sub !== session.data.user.sub) {
+      throw new Error('Userinfo response is about a different user')
+    }
+
+    return { format, claims }
+  }
+)
+
+// Server function returning the signed-in user's claims, grouped for display
+export const getUserinfo = createServerFn({ method: 'GET' })
+  .middleware([authMiddleware])
+  .handler(async ({ context }): Promise<UserinfoResult> => {
+    const { format, claims } = await fetchUserinfo(context.session)
+    const provider = getProvider(context.session.data.providerId)
+
+    const standard: UserinfoClaim[] = []
+    const custom: UserinfoClaim[] = []
+    for (const [name, value] of Object.entries(claims)) {
+      if (STANDARD_CLAIMS.includes(name)) {
+        standard.push(toClaim(name, value))
+      } else if (!(format === 'jwt' && JWT_CLAIMS.includes(name))) {
+        custom.push(toClaim(name, value))
+      }
+    }
+
+    standard.sort((a, b) => STANDARD_CLAIMS.indexOf(a.name) - STANDARD_CLAIMS.indexOf(b.name))
+    custom.sort((a, b) => a.name.localeCompare(b.name))
+
+    return {
+      format,
+      standard,
+      custom,
+      accountConsoleUrl: getProviderAdapter(provider.type).accountConsoleUrl(provider),
+    }
+  })
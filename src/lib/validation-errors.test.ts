@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { isValidationError, toFormErrors, ValidationError } from './validation-errors'
+
+describe('validation errors', () => {
+  it('puts the first message of each shown field on it, and the rest on the form', () => {
+    const error = new ValidationError(
+      { name: ['Name must not be empty', 'Name must be text'], list: ['List must be text'] },
+      ['Expected object']
+    )
+
+    expect(toFormErrors(error, ['name'])).toEqual({
+      form: 'Expected object',
+      fields: { name: 'Name must not be empty' },
+    })
+    expect(toFormErrors(new ValidationError({ list: ['List must be text'] }), ['name'])).toEqual({
+      form: 'list: List must be text',
+      fields: {},
+    })
+  })
+
+  it('has no form error when every message has its field', () => {
+    expect(toFormErrors(new ValidationError({ name: ['Name is required'] }), ['name'])).toEqual({
+      form: undefined,
+      fields: { name: 'Name is required' },
+    })
+  })
+
+  it('recognizes validation errors rebuilt from their fields', () => {
+    const rebuilt = Object.assign(new Error('Invalid input'), { name: 'ValidationError', fieldErrors: {} })
+
+    expect(isValidationError(rebuilt)).toBe(true)
+    expect(isValidationError(new Error('Name is required'))).toBe(false)
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Validation errors thrown by server functions
+ *
+ * A serialization adapter in start.ts rebuilds them on the client with their
+ * field messages, which pages put next to the matching inputs.
+ */
+
+// Field paths joined with dots, e.g. `name` or `items.0.name`
+export type FieldErrors = Record<string, string[]>
+
+export class ValidationError extends Error {
+  readonly fieldErrors: FieldErrors
+  // Problems with the input as a whole, such as a missing object
+  readonly formErrors: string[]
+
+  constructor(fieldErrors: FieldErrors, formErrors: string[] = []) {
+    super(formErrors[0] ?? Object.values(fieldErrors)[0]?.[0] ?? 'Invalid input')
+    this.name = 'ValidationError'
+    this.fieldErrors = fieldErrors
+    this.formErrors = formErrors
+  }
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof Error && error.name === 'ValidationError' && 'fieldErrors' in error
+}
+
+/**
+ * Splits a ValidationError into the first message of each field the form
+ * shows, and one message for the rest, in the shape TanStack Form accepts
+ * for `setErrorMap({ onSubmit })`
+ */
+export function toFormErrors(
+  error: ValidationError,
+  formFields: readonly string[]
+): { form?: string; fields: Record<string, string> } {
+  const fields: Record<string, string> = {}
+  const other = [...error.formErrors]
+  for (const [path, messages] of Object.entries(error.fieldErrors)) {
+    if (formFields.includes(path)) {
+      fields[path] = messages[0]
+    } else {
+      other.push(`${path}: ${messages[0]}`)
+    }
+  }
+  return { form: other[0], fields }
+}
@@ -10,6 +10,7 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as MockIdpSplatRouteImport } from './routes/mock-idp.$'
 import { Route as DemoStartServerFuncsRouteImport } from './routes/demo/start.server-funcs'
 import { Route as DemoStartApiRequestRouteImport } from './routes/demo/start.api-request'
 import { Route as DemoApiNamesRouteImport } from './routes/demo/api.names'
@@ -18,13 +19,22 @@ import { Route as DemoStartAuthIndexRouteImport } from './routes/demo/start.auth
 import { Route as DemoStartSsrSpaModeRouteImport } from './routes/demo/start.ssr.spa-mode'
 import { Route as DemoStartSsrFullSsrRouteImport } from './routes/demo/start.ssr.full-ssr'
 import { Route as DemoStartSsrDataOnlyRouteImport } from './routes/demo/start.ssr.data-only'
+import { Route as DemoStartAuthProfileRouteImport } from './routes/demo/start.auth.profile'
 import { Route as DemoStartAuthDiscoveryRouteImport } from './routes/demo/start.auth.discovery'
+import { Route as DemoStartAuthDeviceRouteImport } from './routes/demo/start.auth.device'
+import { Route as DemoStartAuthCallbackRouteImport } from './routes/demo/start.auth.callback'
+import { Route as DemoApiAuthBackchannelLogoutRouteImport } from './routes/demo/api.auth.backchannel-logout'
 
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MockIdpSplatRoute = MockIdpSplatRouteImport.update({
+  id: '/mock-idp/$',
+  path: '/mock-idp/$',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartServerFuncsRoute = DemoStartServerFuncsRouteImport.update({
   id: '/demo/start/server-funcs',
   path: '/demo/start/server-funcs',
@@ -65,18 +75,44 @@ const DemoStartSsrDataOnlyRoute = DemoStartSsrDataOnlyRouteImport.update({
   path: '/demo/start/ssr/data-only',
   getParentRoute: () => rootRouteImport,
 } as any)
+const DemoStartAuthProfileRoute = DemoStartAuthProfileRouteImport.update({
+  id: '/demo/start/auth/profile',
+  path: '/demo/start/auth/profile',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartAuthDiscoveryRoute = DemoStartAuthDiscoveryRouteImport.update({
   id: '/demo/start/auth/discovery',
   path: '/demo/start/auth/discovery',
   getParentRoute: () => rootRouteImport,
 } as any)
+const DemoStartAuthDeviceRoute = DemoStartAuthDeviceRouteImport.update({
+  id: '/demo/start/auth/device',
+  path: '/demo/start/auth/device',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const DemoStartAuthCallbackRoute = DemoStartAuthCallbackRouteImport.update({
+  id: '/demo/start/auth/callback',
+  path: '/demo/start/auth/callback',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const DemoApiAuthBackchannelLogoutRoute =
+  DemoApiAuthBackchannelLogoutRouteImport.update({
+    id: '/demo/api/auth/backchannel-logout',
+    path: '/demo/api/auth/backchannel-logout',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/mock-idp/$': typeof MockIdpSplatRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/demo/api/auth/backchannel-logout': typeof DemoApiAuthBackchannelLogoutRoute
+  '/demo/start/auth/callback': typeof DemoStartAuthCallbackRoute
+  '/demo/start/auth/device': typeof DemoStartAuthDeviceRoute
   '/demo/start/auth/discovery': typeof DemoStartAuthDiscoveryRoute
+  '/demo/start/auth/profile': typeof DemoStartAuthProfileRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
@@ -85,10 +121,15 @@ export interface FileRoutesByFullPath {
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/mock-idp/$': typeof MockIdpSplatRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/demo/api/auth/backchannel-logout': typeof DemoApiAuthBackchannelLogoutRoute
+  '/demo/start/auth/callback': typeof DemoStartAuthCallbackRoute
+  '/demo/start/auth/device': typeof DemoStartAuthDeviceRoute
   '/demo/start/auth/discovery': typeof DemoStartAuthDiscoveryRoute
+  '/demo/start/auth/profile': typeof DemoStartAuthProfileRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
@@ -98,10 +139,15 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/mock-idp/$': typeof MockIdpSplatRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/demo/api/auth/backchannel-logout': typeof DemoApiAuthBackchannelLogoutRoute
+  '/demo/start/auth/callback': typeof DemoStartAuthCallbackRoute
+  '/demo/start/auth/device': typeof DemoStartAuthDeviceRoute
   '/demo/start/auth/discovery': typeof DemoStartAuthDiscoveryRoute
+  '/demo/start/auth/profile': typeof DemoStartAuthProfileRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
@@ -112,10 +158,15 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/mock-idp/$'
     | '/demo/api/names'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/demo/api/auth/backchannel-logout'
+    | '/demo/start/auth/callback'
+    | '/demo/start/auth/device'
     | '/demo/start/auth/discovery'
+    | '/demo/start/auth/profile'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
@@ -124,10 +175,15 @@ export interface FileRouteTypes {
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/mock-idp/$'
     | '/demo/api/names'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/demo/api/auth/backchannel-logout'
+    | '/demo/start/auth/callback'
+    | '/demo/start/auth/device'
     | '/demo/start/auth/discovery'
+    | '/demo/start/auth/profile'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
@@ -136,10 +192,15 @@ export interface FileRouteTypes {
   id:
     | '__root__'
     | '/'
+    | '/mock-idp/$'
     | '/demo/api/names'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/demo/api/auth/backchannel-logout'
+    | '/demo/start/auth/callback'
+    | '/demo/start/auth/device'
     | '/demo/start/auth/discovery'
+    | '/demo/start/auth/profile'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
@@ -149,10 +210,15 @@ export interface FileRouteTypes {
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  MockIdpSplatRoute: typeof MockIdpSplatRoute
   DemoApiNamesRoute: typeof DemoApiNamesRoute
   DemoStartApiRequestRoute: typeof DemoStartApiRequestRoute
   DemoStartServerFuncsRoute: typeof DemoStartServerFuncsRoute
+  DemoApiAuthBackchannelLogoutRoute: typeof DemoApiAuthBackchannelLogoutRoute
+  DemoStartAuthCallbackRoute: typeof DemoStartAuthCallbackRoute
+  DemoStartAuthDeviceRoute: typeof DemoStartAuthDeviceRoute
   DemoStartAuthDiscoveryRoute: typeof DemoStartAuthDiscoveryRoute
+  DemoStartAuthProfileRoute: typeof DemoStartAuthProfileRoute
   DemoStartSsrDataOnlyRoute: typeof DemoStartSsrDataOnlyRoute
   DemoStartSsrFullSsrRoute: typeof DemoStartSsrFullSsrRoute
   DemoStartSsrSpaModeRoute: typeof DemoStartSsrSpaModeRoute
@@ -169,6 +235,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/mock-idp/$': {
+      id: '/mock-idp/$'
+      path: '/mock-idp/$'
+      fullPath: '/mock-idp/$'
+      preLoaderRoute: typeof MockIdpSplatRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/server-funcs': {
       id: '/demo/start/server-funcs'
       path: '/demo/start/server-funcs'
@@ -225,6 +298,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartSsrDataOnlyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/demo/start/auth/profile': {
+      id: '/demo/start/auth/profile'
+      path: '/demo/start/auth/profile'
+      fullPath: '/demo/start/auth/profile'
+      preLoaderRoute: typeof DemoStartAuthProfileRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/auth/discovery': {
       id: '/demo/start/auth/discovery'
       path: '/demo/start/auth/discovery'
@@ -232,15 +312,41 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartAuthDiscoveryRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/demo/start/auth/device': {
+      id: '/demo/start/auth/device'
+      path: '/demo/start/auth/device'
+      fullPath: '/demo/start/auth/device'
+      preLoaderRoute: typeof DemoStartAuthDeviceRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/demo/start/auth/callback': {
+      id: '/demo/start/auth/callback'
+      path: '/demo/start/auth/callback'
+      fullPath: '/demo/start/auth/callback'
+      preLoaderRoute: typeof DemoStartAuthCallbackRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/demo/api/auth/backchannel-logout': {
+      id: '/demo/api/auth/backchannel-logout'
+      path: '/demo/api/auth/backchannel-logout'
+      fullPath: '/demo/api/auth/backchannel-logout'
+      preLoaderRoute: typeof DemoApiAuthBackchannelLogoutRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  MockIdpSplatRoute: MockIdpSplatRoute,
   DemoApiNamesRoute: DemoApiNamesRoute,
   DemoStartApiRequestRoute: DemoStartApiRequestRoute,
   DemoStartServerFuncsRoute: DemoStartServerFuncsRoute,
+  DemoApiAuthBackchannelLogoutRoute: DemoApiAuthBackchannelLogoutRoute,
+  DemoStartAuthCallbackRoute: DemoStartAuthCallbackRoute,
+  DemoStartAuthDeviceRoute: DemoStartAuthDeviceRoute,
   DemoStartAuthDiscoveryRoute: DemoStartAuthDiscoveryRoute,
+  DemoStartAuthProfileRoute: DemoStartAuthProfileRoute,
   DemoStartSsrDataOnlyRoute: DemoStartSsrDataOnlyRoute,
   DemoStartSsrFullSsrRoute: DemoStartSsrFullSsrRoute,
   DemoStartSsrSpaModeRoute: DemoStartSsrSpaModeRoute,
@@ -252,10 +358,11 @@ export const routeTree = rootRouteImport
   ._addFileTypes<FileRouteTypes>()
 
 import type { getRouter } from './router.tsx'
-import type { createStart } from '@tanstack/react-start'
+import type { startInstance } from './start.ts'
 declare module '@tanstack/react-start' {
   interface Register {
     ssr: true
     router: Awaited<ReturnType<typeof getRouter>>
+    config: Awaited<ReturnType<typeof startInstance.getOptions>>
   }
 }
@@ -3,12 +3,14 @@ import { createRouter } from '@tanstack/react-router'
 // Import the generated route tree
 import { routeTree } from './routeTree.gen'
 import NotFound from './components/NotFound'
+import { ANONYMOUS_SESSION } from './lib/session'
 
 // Create a new router instance
 export const getRouter = () => {
   const router = createRouter({
     routeTree,
-    context: {},
+    // Replaced by the root route's beforeLoad on every navigation
+    context: { session: ANONYMOUS_SESSION },
 
     scrollRestoration: true,
     defaultPreloadStaleTime: 0,
@@ -1,12 +1,31 @@
-import { HeadContent, Scripts, createRootRoute } from '@tanstack/react-router'
+import {
+  ErrorComponent,
+  HeadContent,
+  Scripts,
+  createRootRouteWithContext,
+  type ErrorComponentProps,
+} from '@tanstack/react-router'
 import { TanStackRouterDevtoolsPanel } from '@tanstack/react-router-devtools'
 import { TanStackDevtools } from '@tanstack/react-devtools'
 
 import Header from '../components/Header'
+import Forbidden from '../components/Forbidden'
+import { isAuthError } from '../lib/auth-errors'
+import { requireRouteRoles } from '../lib/auth-guard'
+import { getSession, type SessionView } from '../lib/session'
 
 import appCss from '../styles.css?url'
 
-export const Route = createRootRoute({
+export interface RouterContext {
+  session: SessionView
+}
+
+export const Route = createRootRouteWithContext<RouterContext>()({
+  beforeLoad: async ({ matches, location }) => {
+    const session = await getSession()
+    requireRouteRoles({ session, matches, location })
+    return { session }
+  },
   head: () => ({
     meta: [
       {
@@ -29,8 +48,16 @@ export const Route = createRootRoute({
   }),
 
   shellComponent: RootDocument,
+  errorComponent: RootError,
 })
 
+function RootError(props: ErrorComponentProps) {
+  if (isAuthError(props.error) && props.error.status === 403) {
+    return <Forbidden message={props.error.message} />
+  }
+  return <ErrorComponent {...props} />
+}
+
 function RootDocument({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en" className='box-border min-h-screen relative overflow-y-auto'>
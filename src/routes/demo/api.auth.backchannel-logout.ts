@@ -0,0 +1,11 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { handleBackchannelLogout } from '@/lib/keycloak-logout'
+
+// Register this URL as the client's "Backchannel logout URL" in Keycloak
+export const Route = createFileRoute('/demo/api/auth/backchannel-logout')({
+  server: {
+    handlers: {
+      POST: ({ request }) => handleBackchannelLogout(request),
+    },
+  },
+})
@@ -0,0 +1,76 @@
+import { useEffect } from 'react'
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { completeAuthorization } from '@/lib/keycloak-auth'
+
+interface CallbackSearch {
+  code?: string
+  state?: string
+  session_state?: string
+  error?: string
+  error_description?: string
+}
+
+export const Route = createFileRoute('/demo/start/auth/callback')({
+  validateSearch: (search: Record<string, unknown>): CallbackSearch => ({
+    code: typeof search.code === 'string' ? search.code : undefined,
+    state: typeof search.state === 'string' ? search.state : undefined,
+    session_state: typeof search.session_state === 'string' ? search.session_state : undefined,
+    error: typeof search.error === 'string' ? search.error : undefined,
+    error_description:
+      typeof search.error_description === 'string' ? search.error_description : undefined,
+  }),
+  loaderDeps: ({ search }) => search,
+  loader: async ({ deps }) => {
+    if (deps.error) {
+      throw new Error(deps.error_description || deps.error)
+    }
+    if (!deps.code || !deps.state) {
+      throw new Error('Missing authorization code or state in the callback')
+    }
+
+    return await completeAuthorization({
+      data: { code: deps.code, state: deps.state, sessionState: deps.session_state },
+    })
+  },
+  component: CallbackComponent,
+  errorComponent: CallbackError,
+})
+
+function CallbackComponent() {
+  const { returnTo } = Route.useLoaderData()
+  const navigate = useNavigate()
+
+  // The session cookie is set by now, the auth page loader picks it up
+  useEffect(() => {
+    if (returnTo) {
+      navigate({ href: returnTo, replace: true })
+    } else {
+      navigate({ to: '/demo/start/auth', replace: true })
+    }
+  }, [navigate, returnTo])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center p-4">
+      <p className="text-gray-300">Completing sign in...</p>
+    </div>
+  )
+}
+
+function CallbackError({ error }: { error: Error }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">Sign in failed</h1>
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error.message}</p>
+        </div>
+        <Link
+          to="/demo/start/auth"
+          className="inline-block py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
+        >
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react'
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import {
+  beginDeviceAuthorization,
+  cancelDeviceAuthorization,
+  pollDeviceAuthorization,
+} from '@/lib/keycloak-device'
+import { listProviders } from '@/lib/idp-registry'
+
+export const Route = createFileRoute('/demo/start/auth/device')({
+  component: DeviceComponent,
+  loader: async () => {
+    const { defaultProvider, providers } = await listProviders()
+    return providers.find((provider) => provider.id === defaultProvider)!
+  },
+})
+
+interface DeviceCode {
+  // Names the pending request when polling or cancelling
+  requestId: string
+  userCode: string
+  verificationUri: string
+  verificationUriComplete: string | null
+  qrCode: string
+  interval: number
+  expiresAt: number
+}
+
+function DeviceComponent() {
+  const provider = Route.useLoaderData()
+  const navigate = useNavigate()
+  const [device, setDevice] = useState<DeviceCode | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Poll at the interval the server reports back, slow_down included
+  useEffect(() => {
+    if (!device) {
+      return
+    }
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout>
+
+    const poll = async (interval: number) => {
+      timer = setTimeout(async () => {
+        try {
+          const result = await pollDeviceAuthorization({ data: { requestId: device.requestId } })
+          if (cancelled) {
+            return
+          }
+
+          if (result.status === 'pending') {
+            poll(result.interval)
+          } else if (result.status === 'complete') {
+            navigate({ to: '/demo/start/auth', replace: true })
+          } else {
+            setDevice(null)
+            setError(result.message)
+          }
+        } catch (err) {
+          if (!cancelled) {
+            setDevice(null)
+            setError(err instanceof Error ? err.message : 'Device sign in failed')
+          }
+        }
+      }, interval * 1000)
+    }
+
+    poll(device.interval)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [device, navigate])
+
+  // Ticks the expiry countdown
+  useEffect(() => {
+    if (!device) {
+      return
+    }
+
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [device])
+
+  const start = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setDevice(
+        await beginDeviceAuthorization({ data: { providerId: provider.id } })
+      )
+      setNow(Date.now())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Device authorization failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const cancel = async () => {
+    if (!device) {
+      return
+    }
+    setDevice(null)
+    await cancelDeviceAuthorization({ data: { requestId: device.requestId } })
+  }
+
+  const secondsLeft = device ? Math.max(Math.floor((device.expiresAt - now) / 1000), 0) : 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-gray-900">Sign in on another device</h1>
+          <p className="text-gray-600 mt-2">
+            For devices that cannot open the Keycloak login page
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {device ? (
+          <div className="text-center space-y-5">
+            <div
+              className="w-48 h-48 mx-auto"
+              dangerouslySetInnerHTML={{ __html: device.qrCode }}
+            />
+
+            <div>
+              <p className="text-sm text-gray-500 mb-1">Or go to</p>
+              <a
+                href={device.verificationUriComplete ?? device.verificationUri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline break-all text-sm"
+              >
+                {device.verificationUri}
+              </a>
+              <p className="text-sm text-gray-500 mt-3 mb-1">and enter the code</p>
+              <p className="text-3xl font-mono font-bold tracking-widest text-gray-900">
+                {device.userCode}
+              </p>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Waiting for approval, the code expires in {Math.floor(secondsLeft / 60)}:
+              {String(secondsLeft % 60).padStart(2, '0')}
+            </p>
+
+            <button
+              onClick={cancel}
+              className="w-full py-3 px-4 bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <p className="text-sm text-gray-600">
+              Signs in as the client <span className="font-mono">{provider.clientId}</span>, which needs the
+              device grant enabled.
+            </p>
+
+            <button
+              onClick={start}
+              disabled={isLoading}
+              className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+            >
+              {isLoading ? 'Requesting code...' : 'Get a sign in code'}
+            </button>
+          </div>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link to="/demo/start/auth" className="text-sm text-gray-500 hover:text-gray-700">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,43 +1,56 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { useState } from 'react'
+import { extractEndpoints } from '../../lib/keycloak-discovery'
 import {
-  fetchDiscoveryMetadata,
-  fetchDiscoveryFromUrl,
-  KEYCLOAK_CONFIGS,
-  extractEndpoints,
-  validateMetadataCapabilities,
-  type KeycloakDiscoveryMetadata,
-  type KeycloakConfig,
-} from '../../lib/keycloak-discovery'
+  COMPLIANCE_PROFILES,
+  DEFAULT_COMPLIANCE_PROFILE,
+  checkComplianceProfile,
+  isComplianceProfileId,
+  type ComplianceProfileId,
+} from '../../lib/compliance-profiles'
+import type { DiscoveryCacheInfo } from '../../lib/discovery-client'
+import { loadDiscoveryMetadata } from '../../lib/discovery-inspector'
+import type { DiscoveryIssue } from '../../lib/discovery-validation'
+import { listProviders } from '../../lib/idp-registry'
+import DiscoveryCompare from '../../components/DiscoveryCompare'
+import type { OidcDiscoveryMetadata } from '../../lib/oidc-discovery'
+import { buildProviderDiscoveryUrl, getProviderAdapter } from '../../lib/provider-adapters'
 
 export const Route = createFileRoute('/demo/start/auth/discovery')({
+  // Fetches documents from URLs users type in, so administrators only
+  staticData: { roles: ['admin'] },
   component: DiscoveryComponent,
+  loader: async () => await listProviders(),
 })
 
 function DiscoveryComponent() {
-  const [metadata, setMetadata] = useState<KeycloakDiscoveryMetadata | null>(null)
+  const { defaultProvider, providers } = Route.useLoaderData()
+  const [metadata, setMetadata] = useState<OidcDiscoveryMetadata | null>(null)
+  const [cacheInfo, setCacheInfo] = useState<DiscoveryCacheInfo | null>(null)
+  const [issues, setIssues] = useState<DiscoveryIssue[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [selectedRealm, setSelectedRealm] = useState<'master' | 'famillion'>('master')
+  const [selectedProviderId, setSelectedProviderId] = useState(defaultProvider)
   const [customUrl, setCustomUrl] = useState('')
   const [useCustomUrl, setUseCustomUrl] = useState(false)
+  const [profileId, setProfileId] = useState<ComplianceProfileId>(DEFAULT_COMPLIANCE_PROFILE)
 
   const fetchMetadata = async () => {
     setLoading(true)
     setError(null)
     setMetadata(null)
+    setCacheInfo(null)
+    setIssues([])
 
     try {
-      let data: KeycloakDiscoveryMetadata
-
-      if (useCustomUrl && customUrl) {
-        data = await fetchDiscoveryFromUrl(customUrl)
-      } else {
-        const config: KeycloakConfig = KEYCLOAK_CONFIGS[selectedRealm]
-        data = await fetchDiscoveryMetadata(config)
-      }
+      // Fetched and cached on the server, no CORS involved
+      const result = await loadDiscoveryMetadata({
+        data: useCustomUrl && customUrl ? { url: customUrl } : { providerId: selectedProviderId },
+      })
 
-      setMetadata(data)
+      setMetadata(result.metadata)
+      setIssues(result.issues)
+      setCacheInfo(result.cache)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch metadata')
     } finally {
@@ -45,19 +58,16 @@ function DiscoveryComponent() {
     }
   }
 
+  const selectedProvider = providers.find((provider) => provider.id === selectedProviderId)!
+  const discoveryUrl = buildProviderDiscoveryUrl(selectedProvider)
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
   }
 
   const endpoints = metadata ? extractEndpoints(metadata) : null
 
-  const validation = metadata
-    ? validateMetadataCapabilities(metadata, {
-        grantTypes: ['authorization_code', 'refresh_token', 'password'],
-        responseTypes: ['code', 'id_token'],
-        scopes: ['openid', 'profile', 'email'],
-      })
-    : null
+  const validation = metadata ? checkComplianceProfile(metadata, profileId) : null
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-4">
@@ -65,7 +75,7 @@ function DiscoveryComponent() {
         {/* Header */}
         <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
-            Keycloak Discovery Endpoint
+            OpenID Connect Discovery Endpoint
           </h1>
           <p className="text-gray-600">
             Import metadata from a remote IDP discovery descriptor (OpenID Connect Discovery)
@@ -87,38 +97,41 @@ function DiscoveryComponent() {
                 className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
               />
               <label htmlFor="useCustomUrl" className="text-sm font-medium text-gray-700">
-                Use custom discovery URL
+                Use custom issuer or discovery URL
               </label>
             </div>
 
             {useCustomUrl ? (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Discovery URL
+                  Issuer or Discovery URL
                 </label>
                 <input
                   type="url"
                   value={customUrl}
                   onChange={(e) => setCustomUrl(e.target.value)}
-                  placeholder="https://example.com/realms/myrealm/.well-known/openid-configuration"
+                  placeholder="https://example.com/realms/myrealm"
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
                 />
               </div>
             ) : (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Select Realm
+                  Select Provider
                 </label>
                 <select
-                  value={selectedRealm}
-                  onChange={(e) => setSelectedRealm(e.target.value as 'master' | 'famillion')}
+                  value={selectedProviderId}
+                  onChange={(e) => setSelectedProviderId(e.target.value)}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
                 >
-                  <option value="master">Master Realm</option>
-                  <option value="famillion">Famillion Realm</option>
+                  {providers.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.label} ({getProviderAdapter(provider.type).label})
+                    </option>
+                  ))}
                 </select>
                 <p className="mt-2 text-sm text-gray-500">
-                  Discovery URL: {KEYCLOAK_CONFIGS[selectedRealm].baseUrl}/realms/{selectedRealm}/.well-known/openid-configuration
+                  {getProviderAdapter(selectedProvider.type).label} · Discovery URL: {discoveryUrl}
                 </p>
               </div>
             )}
@@ -154,34 +167,92 @@ function DiscoveryComponent() {
           )}
         </div>
 
+        {/* Document Issues */}
+        {issues.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Document Validation</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {metadata
+                ? 'The document is usable, problematic optional fields were ignored'
+                : 'The document is not a valid OpenID Connect discovery document'}
+            </p>
+            <ul className="space-y-2">
+              {issues.map((issue) => (
+                <li
+                  key={`${issue.path}:${issue.message}`}
+                  className={`p-3 rounded-lg text-sm ${
+                    issue.severity === 'error'
+                      ? 'bg-red-50 border border-red-200 text-red-700'
+                      : 'bg-yellow-50 border border-yellow-200 text-yellow-700'
+                  }`}
+                >
+                  {issue.path && <span className="font-mono font-medium">{issue.path}</span>}
+                  {issue.path && ': '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Validation Results */}
         {validation && (
           <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Capability Validation</h2>
-            <div className={`p-4 rounded-lg ${validation.valid ? 'bg-green-50 border border-green-200' : 'bg-yellow-50 border border-yellow-200'}`}>
-              {validation.valid ? (
-                <div className="flex items-center gap-2 text-green-700">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Capability Validation</h2>
+              <select
+                value={profileId}
+                onChange={(e) => isComplianceProfileId(e.target.value) && setProfileId(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                {Object.values(COMPLIANCE_PROFILES).map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">{validation.profile.description}</p>
+            <div className={`p-4 rounded-lg ${validation.compliant ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
+              <div className={`flex items-center gap-2 ${validation.compliant ? 'text-green-700' : 'text-red-700'}`}>
+                {validation.compliant ? (
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  All required capabilities are supported
-                </div>
-              ) : (
-                <div>
-                  <div className="flex items-center gap-2 text-yellow-700 mb-2">
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                    </svg>
-                    Some capabilities are missing
-                  </div>
-                  <ul className="list-disc list-inside text-yellow-600 text-sm">
-                    {validation.missing.map((item) => (
-                      <li key={item}>{item}</li>
-                    ))}
-                  </ul>
-                </div>
-              )}
+                ) : (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                )}
+                {validation.compliant
+                  ? validation.findings.length === 0
+                    ? 'All required capabilities are supported'
+                    : 'Required capabilities are supported, see the notes below'
+                  : 'Some required capabilities are missing'}
+              </div>
             </div>
+            {validation.findings.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {validation.findings.map((finding) => (
+                  <li
+                    key={`${finding.severity}:${finding.message}`}
+                    className={`p-3 rounded-lg text-sm flex items-start gap-3 ${
+                      finding.severity === 'error'
+                        ? 'bg-red-50 text-red-700'
+                        : finding.severity === 'warning'
+                          ? 'bg-yellow-50 text-yellow-700'
+                          : 'bg-blue-50 text-blue-700'
+                    }`}
+                  >
+                    <span className="uppercase text-xs font-semibold w-16 shrink-0">{finding.severity}</span>
+                    <span>
+                      {finding.message}
+                      <span className="block text-xs opacity-75 font-mono">{finding.field}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -190,23 +261,25 @@ function DiscoveryComponent() {
           <div className="bg-white rounded-2xl shadow-xl p-6 mb-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Endpoints</h2>
             <div className="grid gap-3">
-              {Object.entries(endpoints).map(([name, url]) => (
-                <div key={name} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                  <div>
-                    <span className="font-medium text-gray-900 capitalize">{name.replace(/([A-Z])/g, ' $1')}</span>
-                    <p className="text-sm text-gray-500 break-all">{url}</p>
+              {Object.entries(endpoints)
+                .filter((entry): entry is [string, string] => entry[1] !== undefined)
+                .map(([name, url]) => (
+                  <div key={name} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <span className="font-medium text-gray-900 capitalize">{name.replace(/([A-Z])/g, ' $1')}</span>
+                      <p className="text-sm text-gray-500 break-all">{url}</p>
+                    </div>
+                    <button
+                      onClick={() => copyToClipboard(url)}
+                      className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Copy to clipboard"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    </button>
                   </div>
-                  <button
-                    onClick={() => copyToClipboard(url)}
-                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                    title="Copy to clipboard"
-                  >
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                    </svg>
-                  </button>
-                </div>
-              ))}
+                ))}
             </div>
           </div>
         )}
@@ -231,6 +304,13 @@ function DiscoveryComponent() {
             <div className="mb-4 p-3 bg-blue-50 rounded-lg">
               <span className="text-sm font-medium text-blue-700">Issuer:</span>
               <p className="text-blue-900">{metadata.issuer}</p>
+              {cacheInfo && (
+                <p className="mt-1 text-xs text-blue-700">
+                  Fetched {new Date(cacheInfo.fetchedAt).toLocaleTimeString()}, cached until{' '}
+                  {new Date(cacheInfo.expiresAt).toLocaleTimeString()}
+                  {cacheInfo.stale && ' (stale, revalidating)'}
+                </p>
+              )}
             </div>
 
             {/* Supported Features */}
@@ -238,7 +318,7 @@ function DiscoveryComponent() {
               <div className="p-4 bg-gray-50 rounded-lg">
                 <h3 className="font-medium text-gray-900 mb-2">Grant Types Supported</h3>
                 <div className="flex flex-wrap gap-1">
-                  {metadata.grant_types_supported.map((grant) => (
+                  {(metadata.grant_types_supported ?? []).map((grant) => (
                     <span key={grant} className="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded">
                       {grant}
                     </span>
@@ -260,7 +340,7 @@ function DiscoveryComponent() {
               <div className="p-4 bg-gray-50 rounded-lg">
                 <h3 className="font-medium text-gray-900 mb-2">Scopes Supported</h3>
                 <div className="flex flex-wrap gap-1">
-                  {metadata.scopes_supported.map((scope) => (
+                  {(metadata.scopes_supported ?? []).map((scope) => (
                     <span key={scope} className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded">
                       {scope}
                     </span>
@@ -271,7 +351,7 @@ function DiscoveryComponent() {
               <div className="p-4 bg-gray-50 rounded-lg">
                 <h3 className="font-medium text-gray-900 mb-2">Claims Supported</h3>
                 <div className="flex flex-wrap gap-1">
-                  {metadata.claims_supported.map((claim) => (
+                  {(metadata.claims_supported ?? []).map((claim) => (
                     <span key={claim} className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded">
                       {claim}
                     </span>
@@ -292,6 +372,9 @@ function DiscoveryComponent() {
           </div>
         )}
 
+        {/* Compare two configurations */}
+        <DiscoveryCompare providers={providers} defaultProvider={defaultProvider} />
+
         {/* Quick Links */}
         <div className="bg-white rounded-2xl shadow-xl p-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Links</h2>
@@ -301,10 +384,10 @@ function DiscoveryComponent() {
               className="p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors"
             >
               <h3 className="font-medium text-gray-900">Authentication Form</h3>
-              <p className="text-sm text-gray-500">Sign in with username/password or social providers</p>
+              <p className="text-sm text-gray-500">Sign in with Keycloak (PKCE) or social providers</p>
             </a>
             <a
-              href={`${KEYCLOAK_CONFIGS[selectedRealm].baseUrl}/realms/${selectedRealm}/.well-known/openid-configuration`}
+              href={discoveryUrl}
               target="_blank"
               rel="noopener noreferrer"
               className="p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors"
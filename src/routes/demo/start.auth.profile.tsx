@@ -0,0 +1,84 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { requireAuth } from '@/lib/auth-guard'
+import { getUserinfo, type UserinfoClaim } from '@/lib/userinfo'
+
+export const Route = createFileRoute('/demo/start/auth/profile')({
+  beforeLoad: requireAuth,
+  component: ProfileComponent,
+  loader: async () => {
+    try {
+      return { userinfo: await getUserinfo(), error: null }
+    } catch (err) {
+      return { userinfo: null, error: err instanceof Error ? err.message : 'Failed to load the profile' }
+    }
+  },
+})
+
+function ClaimList({ title, claims }: { title: string; claims: UserinfoClaim[] }) {
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-2">
+        {title} <span className="font-normal text-gray-500">({claims.length})</span>
+      </h2>
+      {claims.length === 0 ? (
+        <p className="text-sm text-gray-500">None returned</p>
+      ) : (
+        <dl className="bg-gray-50 rounded-lg divide-y divide-gray-200">
+          {claims.map((claim) => (
+            <div key={claim.name} className="flex justify-between gap-4 p-3 text-sm">
+              <dt className="font-mono text-gray-500 shrink-0">{claim.name}</dt>
+              <dd className="font-medium text-gray-900 text-right break-all">{claim.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  )
+}
+
+function ProfileComponent() {
+  const { userinfo, error } = Route.useLoaderData()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-2xl">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Profile</h1>
+            <p className="text-gray-600 mt-1">
+              Claims returned by the provider's userinfo endpoint
+              {userinfo?.format === 'jwt' && ' (signed JWT, verified)'}
+            </p>
+          </div>
+          {userinfo?.accountConsoleUrl && (
+            <a
+              href={userinfo.accountConsoleUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors shrink-0"
+            >
+              Manage account
+            </a>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {userinfo && (
+          <>
+            <ClaimList title="Standard claims" claims={userinfo.standard} />
+            <ClaimList title="Custom claims" claims={userinfo.custom} />
+          </>
+        )}
+
+        <Link to="/demo/start/auth" className="text-sm text-blue-600 hover:underline">
+          Back to authentication
+        </Link>
+      </div>
+    </div>
+  )
+}
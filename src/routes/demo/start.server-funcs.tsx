@@ -1,7 +1,10 @@
-import fs from 'node:fs'
-import { useCallback, useState } from 'react'
-import { createFileRoute, useRouter } from '@tanstack/react-router'
-import { createServerFn } from '@tanstack/react-start'
+import { useCallback, useEffect, useState } from 'react'
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import { useTodoQueue } from '@/hooks/use-todo-queue'
+import { LOGIN_PATH } from '@/lib/auth-guard'
+import { describeMutation, type TodoConflict, type TodoMutation } from '@/lib/todo-queue'
+import { getTodos, shareTodoList, unshareTodoList, type SharedWithUser, type Todo } from '@/lib/todos'
+import { isValidationError } from '@/lib/validation-errors'
 
 /*
 const loggingMiddleware = createMiddleware().server(
@@ -15,52 +18,256 @@ const loggedServerFunction = createServerFn({ method: "GET" }).middleware([
 ]);
 */
 
-const TODOS_FILE = 'todos.json'
-
-async function readTodos() {
-  return JSON.parse(
-    await fs.promises.readFile(TODOS_FILE, 'utf-8').catch(() =>
-      JSON.stringify(
-        [
-          { id: 1, name: 'Get groceries' },
-          { id: 2, name: 'Buy a new phone' },
-        ],
-        null,
-        2,
-      ),
-    ),
+export const Route = createFileRoute('/demo/start/server-funcs')({
+  // The list to show, the caller's own one (or the guest list) when absent
+  validateSearch: (search: Record<string, unknown>): { list?: string } => ({
+    list: typeof search.list === 'string' ? search.list : undefined,
+  }),
+  loaderDeps: ({ search }) => ({ list: search.list }),
+  component: Home,
+  loader: async ({ deps }) => await getTodos({ data: { list: deps.list } }),
+})
+
+// The server's message for one input, or the error as a whole
+function fieldError(error: unknown, field: string): string {
+  if (isValidationError(error)) {
+    return error.fieldErrors[field]?.[0] ?? error.message
+  }
+  return error instanceof Error ? error.message : 'Something went wrong'
+}
+
+// A name the server refused as invalid, shown on the input it was typed in
+// rather than among the other conflicts
+function isRefusedName(conflict: TodoConflict, type: 'add' | 'rename', id?: string): boolean {
+  const { mutation, error } = conflict
+  return mutation.type === type && (id === undefined || mutation.id === id) && isValidationError(error)
+}
+
+// Names longer than this are refused by the server
+const MAX_NAME_LENGTH = 200
+
+function TodoItem({
+  todo,
+  refused,
+  mutate,
+  dismissConflict,
+}: {
+  todo: Todo
+  // A rename of this todo the server refused as invalid
+  refused?: TodoConflict
+  mutate: (mutation: TodoMutation) => void
+  dismissConflict: (key: string) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [name, setName] = useState(todo.name)
+  const error = refused ? fieldError(refused.error, 'name') : null
+
+  // Back to editing the refused name
+  useEffect(() => {
+    if (refused?.mutation.type === 'rename') {
+      setName(refused.mutation.name)
+      setEditing(true)
+    }
+  }, [refused])
+
+  const clearError = () => {
+    if (refused) {
+      dismissConflict(refused.mutation.key)
+    }
+  }
+
+  const startEditing = () => {
+    setName(todo.name)
+    clearError()
+    setEditing(true)
+  }
+
+  const cancel = () => {
+    setName(todo.name)
+    clearError()
+    setEditing(false)
+  }
+
+  // An empty name keeps the old one
+  const save = () => {
+    const trimmed = name.trim()
+    clearError()
+    if (trimmed && trimmed !== todo.name) {
+      mutate({ type: 'rename', id: todo.id, name: trimmed, updatedAt: todo.updatedAt })
+    }
+    setEditing(false)
+  }
+
+  return (
+    <li className="flex items-center gap-3 bg-white/10 border border-white/20 rounded-lg p-3 backdrop-blur-sm shadow-md">
+      <input
+        type="checkbox"
+        checked={todo.completed}
+        onChange={() =>
+          mutate({ type: 'toggle', id: todo.id, completed: !todo.completed, updatedAt: todo.updatedAt })
+        }
+        className="w-5 h-5 accent-blue-500"
+        aria-label={todo.completed ? 'Mark as not done' : 'Mark as done'}
+      />
+      {editing ? (
+        <div className="flex-1">
+          <input
+            type="text"
+            value={name}
+            autoFocus
+            maxLength={MAX_NAME_LENGTH}
+            aria-invalid={error !== null}
+            onChange={(e) => {
+              setName(e.target.value)
+              clearError()
+            }}
+            onBlur={save}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.currentTarget.blur()
+              } else if (e.key === 'Escape') {
+                cancel()
+              }
+            }}
+            className={`w-full px-2 py-1 rounded border bg-white/10 text-white focus:outline-none focus:ring-2 ${
+              error ? 'border-red-400 focus:ring-red-400' : 'border-white/20 focus:ring-blue-400'
+            }`}
+          />
+          {error && <p className="mt-1 text-sm text-red-300">{error}</p>}
+        </div>
+      ) : (
+        <span
+          onDoubleClick={startEditing}
+          title={`Created ${new Date(todo.createdAt).toLocaleString()}, updated ${new Date(todo.updatedAt).toLocaleString()}`}
+          className={`flex-1 text-lg cursor-text ${todo.completed ? 'line-through text-white/50' : 'text-white'}`}
+        >
+          {todo.name}
+        </span>
+      )}
+      <button
+        onClick={startEditing}
+        className="text-sm text-white/60 hover:text-white transition-colors"
+      >
+        Edit
+      </button>
+      <button
+        onClick={() => mutate({ type: 'delete', id: todo.id })}
+        className="text-sm text-red-300 hover:text-red-200 transition-colors"
+      >
+        Delete
+      </button>
+    </li>
   )
 }
 
-const getTodos = createServerFn({
-  method: 'GET',
-}).handler(async () => await readTodos())
+// Who else may use the signed-in user's own list
+function ListSharing({ sharedWith, onChange }: { sharedWith: SharedWithUser[]; onChange: () => Promise<void> }) {
+  const [username, setUsername] = useState('')
+  const [error, setError] = useState<string | null>(null)
 
-const addTodo = createServerFn({ method: 'POST' })
-  .inputValidator((d: string) => d)
-  .handler(async ({ data }) => {
-    const todos = await readTodos()
-    todos.push({ id: todos.length + 1, name: data })
-    await fs.promises.writeFile(TODOS_FILE, JSON.stringify(todos, null, 2))
-    return todos
-  })
+  const share = async () => {
+    try {
+      await shareTodoList({ data: { username } })
+    } catch (err) {
+      setError(fieldError(err, 'username'))
+      return
+    }
+    setUsername('')
+    await onChange()
+  }
 
-export const Route = createFileRoute('/demo/start/server-funcs')({
-  component: Home,
-  loader: async () => await getTodos(),
-})
+  return (
+    <div className="mt-6 pt-4 border-t border-white/10">
+      <h2 className="text-sm font-semibold mb-2">Sharing</h2>
+      {sharedWith.length === 0 ? (
+        <p className="text-sm text-white/60 mb-2">Only you can see this list</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2 mb-2">
+          {sharedWith.map((user) => (
+            <li key={user.sub} className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/10 text-sm">
+              {user.username}
+              <button
+                onClick={async () => {
+                  await unshareTodoList({ data: { sub: user.sub } })
+                  await onChange()
+                }}
+                className="text-white/60 hover:text-white"
+                aria-label={`Stop sharing with ${user.username}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={username}
+          aria-invalid={error !== null}
+          onChange={(e) => {
+            setUsername(e.target.value)
+            setError(null)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && username.trim()) {
+              share()
+            }
+          }}
+          placeholder="Username to share with"
+          className={`flex-1 px-3 py-2 rounded-lg border bg-white/10 text-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 ${
+            error ? 'border-red-400 focus:ring-red-400' : 'border-white/20 focus:ring-blue-400'
+          }`}
+        />
+        <button
+          disabled={username.trim().length === 0}
+          onClick={share}
+          className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+        >
+          Share
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-300">{error}</p>}
+    </div>
+  )
+}
 
 function Home() {
   const router = useRouter()
-  let todos = Route.useLoaderData()
+  const { list, title, owned, todos: loadedTodos, sharedWith, sharedWithMe, signedIn } = Route.useLoaderData()
+  const { todos, pending, conflicts, offline, mutate, dismissConflict } = useTodoQueue(list, loadedTodos)
 
   const [todo, setTodo] = useState('')
 
-  const submitTodo = useCallback(async () => {
-    todos = await addTodo({ data: todo })
+  const refresh = useCallback(() => router.invalidate(), [router])
+
+  const refusedAdd = conflicts.find((conflict) => isRefusedName(conflict, 'add'))
+  const error = refusedAdd ? fieldError(refusedAdd.error, 'name') : null
+  const listedConflicts = conflicts.filter(
+    (conflict) => conflict !== refusedAdd && !todos.some((t) => isRefusedName(conflict, 'rename', t.id))
+  )
+
+  // Back in the input, unless the user started typing another todo meanwhile
+  useEffect(() => {
+    if (refusedAdd?.mutation.type === 'add') {
+      const { name } = refusedAdd.mutation
+      setTodo((current) => current || name)
+    }
+  }, [refusedAdd])
+
+  const clearError = useCallback(() => {
+    if (refusedAdd) {
+      dismissConflict(refusedAdd.mutation.key)
+    }
+  }, [refusedAdd, dismissConflict])
+
+  const submitTodo = useCallback(() => {
+    clearError()
+    mutate({ type: 'add', id: crypto.randomUUID(), name: todo.trim(), createdAt: Date.now() })
     setTodo('')
-    router.invalidate()
-  }, [addTodo, todo])
+  }, [todo, mutate, clearError])
+
+  const remaining = todos.filter((t) => !t.completed).length
 
   return (
     <div
@@ -71,30 +278,112 @@ function Home() {
       }}
     >
       <div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
-        <h1 className="text-2xl mb-4">Start Server Functions - Todo Example</h1>
+        <h1 className="text-2xl mb-2">Start Server Functions - Todo Example</h1>
+        {signedIn ? (
+          <nav className="flex flex-wrap gap-2 mb-4 text-sm">
+            <Link
+              to="/demo/start/server-funcs"
+              search={{}}
+              className={`px-3 py-1 rounded-full ${owned ? 'bg-blue-500' : 'bg-white/10 hover:bg-white/20'}`}
+            >
+              My list
+            </Link>
+            {sharedWithMe.map((shared) => (
+              <Link
+                key={shared.list}
+                to="/demo/start/server-funcs"
+                search={{ list: shared.list }}
+                className={`px-3 py-1 rounded-full ${
+                  shared.list === list ? 'bg-blue-500' : 'bg-white/10 hover:bg-white/20'
+                }`}
+              >
+                {shared.ownerName}'s list
+              </Link>
+            ))}
+          </nav>
+        ) : (
+          <p className="mb-4 text-sm text-white/60">
+            You are using the guest list, which every signed-out visitor shares.{' '}
+            <Link
+              to={LOGIN_PATH}
+              search={{ redirect: '/demo/start/server-funcs' }}
+              className="text-blue-300 hover:underline"
+            >
+              Sign in
+            </Link>{' '}
+            to get a list of your own.
+          </p>
+        )}
+        <h2 className="text-lg mb-2 text-white/80">{title}</h2>
+        {offline && (
+          <p className="mb-4 px-3 py-2 rounded-lg bg-yellow-500/20 text-sm text-yellow-100">
+            You are offline.{' '}
+            {pending.length > 0 &&
+              `${pending.length} change${pending.length === 1 ? '' : 's'} will be sent once the connection is back.`}
+          </p>
+        )}
+        {listedConflicts.length > 0 && (
+          <ul className="mb-4 space-y-2">
+            {listedConflicts.map(({ mutation, message }) => (
+              <li
+                key={mutation.key}
+                className="flex items-start gap-3 px-3 py-2 rounded-lg bg-red-500/20 text-sm text-red-100"
+              >
+                <span className="flex-1">
+                  {describeMutation(mutation)} was undone: {message}
+                </span>
+                <button onClick={() => dismissConflict(mutation.key)} className="text-red-200 hover:text-white">
+                  Dismiss
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
         <ul className="mb-4 space-y-2">
-          {todos?.map((t) => (
-            <li
+          {todos.map((t) => (
+            <TodoItem
               key={t.id}
-              className="bg-white/10 border border-white/20 rounded-lg p-3 backdrop-blur-sm shadow-md"
-            >
-              <span className="text-lg text-white">{t.name}</span>
-            </li>
+              todo={t}
+              refused={conflicts.find((conflict) => isRefusedName(conflict, 'rename', t.id))}
+              mutate={mutate}
+              dismissConflict={dismissConflict}
+            />
           ))}
         </ul>
+        {todos.length > 0 && (
+          <div className="flex items-center justify-between mb-4 text-sm text-white/60">
+            <span>{remaining} left</span>
+            {remaining < todos.length && (
+              <button
+                onClick={() => mutate({ type: 'clearCompleted' })}
+                className="hover:text-white transition-colors"
+              >
+                Clear completed
+              </button>
+            )}
+          </div>
+        )}
         <div className="flex flex-col gap-2">
           <input
             type="text"
             value={todo}
-            onChange={(e) => setTodo(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            aria-invalid={error !== null}
+            onChange={(e) => {
+              setTodo(e.target.value)
+              clearError()
+            }}
             onKeyDown={(e) => {
-              if (e.key === 'Enter') {
+              if (e.key === 'Enter' && todo.trim()) {
                 submitTodo()
               }
             }}
             placeholder="Enter a new todo..."
-            className="w-full px-4 py-3 rounded-lg border border-white/20 bg-white/10 backdrop-blur-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+            className={`w-full px-4 py-3 rounded-lg border bg-white/10 backdrop-blur-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:border-transparent ${
+              error ? 'border-red-400 focus:ring-red-400' : 'border-white/20 focus:ring-blue-400'
+            }`}
           />
+          {error && <p className="text-sm text-red-300">{error}</p>}
           <button
             disabled={todo.trim().length === 0}
             onClick={submitTodo}
@@ -103,6 +392,7 @@ function Home() {
             Add todo
           </button>
         </div>
+        {owned && <ListSharing sharedWith={sharedWith} onChange={refresh} />}
       </div>
     </div>
   )
@@ -0,0 +1,24 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { isMockProviderEnabled, MOCK_IDP_PATH } from '@/lib/idp-registry'
+import { createMockOidcProvider, type MockOidcProvider } from '@/lib/mock-oidc-provider'
+
+let provider: MockOidcProvider | null = null
+
+// Serves the registry's `mock` provider, when MOCK_IDP=true outside production
+function handle({ request }: { request: Request }) {
+  if (!isMockProviderEnabled()) {
+    return new Response('Not Found', { status: 404 })
+  }
+
+  provider ??= createMockOidcProvider({ basePath: MOCK_IDP_PATH })
+  return provider.handle(request)
+}
+
+export const Route = createFileRoute('/mock-idp/$')({
+  server: {
+    handlers: {
+      GET: handle,
+      POST: handle,
+    },
+  },
+})
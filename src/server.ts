@@ -0,0 +1,17 @@
+/**
+ * Server entry
+ * Same as the default TanStack Start entry, but checks the identity provider
+ * configuration before serving the first request.
+ */
+
+import handler, { createServerEntry } from '@tanstack/react-start/server-entry'
+import { getProviderRegistry } from './lib/idp-registry'
+
+// Fail fast on a broken identity provider configuration
+getProviderRegistry()
+
+export default createServerEntry({
+  fetch(request) {
+    return handler.fetch(request)
+  },
+})
@@ -0,0 +1,28 @@
+/**
+ * Start instance
+ * Registers how errors with more than a message cross the wire: by default
+ * server functions only pass an error's message to the caller.
+ */
+
+import { createSerializationAdapter } from '@tanstack/react-router'
+import { createStart } from '@tanstack/react-start'
+import { AuthError, isAuthError } from './lib/auth-errors'
+import { isValidationError, ValidationError } from './lib/validation-errors'
+
+const validationErrorAdapter = createSerializationAdapter({
+  key: 'validation-error',
+  test: isValidationError,
+  toSerializable: (error) => ({ fieldErrors: error.fieldErrors, formErrors: error.formErrors }),
+  fromSerializable: ({ fieldErrors, formErrors }) => new ValidationError(fieldErrors, formErrors),
+})
+
+const authErrorAdapter = createSerializationAdapter({
+  key: 'auth-error',
+  test: isAuthError,
+  toSerializable: (error) => ({ status: error.status, code: error.code, message: error.message }),
+  fromSerializable: ({ status, code, message }) => new AuthError(status, code, message),
+})
+
+export const startInstance = createStart(() => ({
+  serializationAdapters: [validationErrorAdapter, authErrorAdapter],
+}))
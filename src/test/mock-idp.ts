@@ -0,0 +1,82 @@
+/**
+ * The registry's `mock` provider, answering the app's requests in-process
+ *
+ * Requests to the provider go to a fresh `createMockOidcProvider`, and its
+ * logout tokens to the app's back-channel logout handler. Anything else fails
+ * like an unreachable server.
+ */
+
+import { vi } from 'vitest'
+import { MOCK_IDP_PATH } from '@/lib/idp-registry'
+import { beginAuthorization, completeAuthorization } from '@/lib/keycloak-auth'
+import { handleBackchannelLogout } from '@/lib/keycloak-logout'
+import {
+  createMockFetch,
+  createMockOidcProvider,
+  type MockOidcProvider,
+  type MockOidcProviderOptions,
+} from '@/lib/mock-oidc-provider'
+
+export const APP_ORIGIN = 'http://localhost:3000'
+export const BACKCHANNEL_LOGOUT_URL = `${APP_ORIGIN}/demo/api/auth/backchannel-logout`
+
+export function installMockIdp(options: MockOidcProviderOptions = {}): MockOidcProvider {
+  vi.stubEnv('MOCK_IDP', 'true')
+  vi.stubEnv('PORT', '3000')
+
+  const provider = createMockOidcProvider({
+    basePath: MOCK_IDP_PATH,
+    backchannelLogoutUrl: BACKCHANNEL_LOGOUT_URL,
+    ...options,
+  })
+
+  vi.stubGlobal(
+    'fetch',
+    createMockFetch(provider, APP_ORIGIN, async (input, init) => {
+      const request = new Request(input, init)
+      if (request.url === BACKCHANNEL_LOGOUT_URL && request.method === 'POST') {
+        return handleBackchannelLogout(request)
+      }
+      throw new TypeError('fetch failed')
+    })
+  )
+
+  return provider
+}
+
+/**
+ * Signs in on the provider's login form, as the user would after following
+ * `authorizationUrl`, and returns the callback's query parameters
+ */
+export async function signInAt(
+  authorizationUrl: string,
+  username = 'alice',
+  password = username
+): Promise<URLSearchParams> {
+  const url = new URL(authorizationUrl)
+  const form = new URLSearchParams(url.searchParams)
+  form.set('username', username)
+  form.set('password', password)
+
+  const response = await fetch(`${url.origin}${url.pathname}`, { method: 'POST', body: form })
+  const location = response.headers.get('Location')
+  if (response.status !== 302 || !location) {
+    throw new Error(`Sign in failed (${response.status})`)
+  }
+  return new URL(location).searchParams
+}
+
+/**
+ * Goes through the whole authorization code flow, leaving the browser signed in
+ */
+export async function signIn(username = 'alice') {
+  const { authorizationUrl } = await beginAuthorization({ data: { providerId: 'mock' } })
+  const callback = await signInAt(authorizationUrl, username)
+  return completeAuthorization({
+    data: {
+      code: callback.get('code')!,
+      state: callback.get('state')!,
+      sessionState: callback.get('session_state') ?? undefined,
+    },
+  })
+}
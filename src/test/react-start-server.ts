@@ -0,0 +1,163 @@
+/**
+ * Test stand-in for @tanstack/react-start/server
+ * A single browser talking to the server: `useSession` cookies live in a
+ * jar, unsealed, until `clearCookies` starts over with a fresh browser.
+ *
+ * Each server function call is a request, as in h3: sessions are read from
+ * the cookies it came with and kept for the rest of the request, and cookies
+ * expire `maxAge` after their session was created. Calls made outside a
+ * server function share one request until the next server function runs.
+ */
+
+export interface SessionConfig {
+  name?: string
+  password: string
+  maxAge?: number
+  cookie?: Record<string, unknown>
+}
+
+export interface Session<T extends Record<string, unknown> = Record<string, unknown>> {
+  id: string
+  createdAt: number
+  data: Partial<T>
+}
+
+interface StoredCookie {
+  session: Session
+  // Epoch milliseconds, undefined for a browser-session cookie
+  expires: number | undefined
+}
+
+interface Request {
+  cookies: Map<string, StoredCookie>
+  sessions: Map<string, Session>
+  status: number
+}
+
+let requestUrl = new URL('http://localhost:3000/')
+const cookieJar = new Map<string, StoredCookie>()
+let request: Request | null = null
+let lastRequest: Request | null = null
+let depth = 0
+
+export function getRequestUrl(): URL {
+  return new URL(requestUrl)
+}
+
+export function setRequestUrl(url: string) {
+  requestUrl = new URL(url)
+}
+
+export function clearCookies() {
+  cookieJar.clear()
+  request = null
+}
+
+// What the browser still sends: its cookies that have not expired
+function liveCookies(): Map<string, StoredCookie> {
+  for (const [name, cookie] of cookieJar) {
+    if (cookie.expires !== undefined && cookie.expires <= Date.now()) {
+      cookieJar.delete(name)
+    }
+  }
+  return new Map(cookieJar)
+}
+
+function currentRequest(): Request {
+  request ??= { cookies: liveCookies(), sessions: new Map(), status: 200 }
+  return request
+}
+
+/**
+ * Runs `handle` as one request, unless it is part of one already
+ */
+export async function handleRequest<T>(handle: () => Promise<T>): Promise<T> {
+  if (depth === 0) {
+    request = null
+  }
+  depth++
+  try {
+    return await handle()
+  } finally {
+    depth--
+    if (depth === 0) {
+      lastRequest = currentRequest()
+      request = null
+    }
+  }
+}
+
+export function setResponseStatus(code: number) {
+  currentRequest().status = code
+}
+
+// The status of the request under way, otherwise of the last one
+export function getResponseStatus(): number {
+  return (request ?? lastRequest ?? currentRequest()).status
+}
+
+// When the browser drops the cookie (epoch milliseconds), undefined without one
+export function getCookieExpiry(name: string): number | undefined {
+  return cookieJar.get(name)?.expires
+}
+
+export async function getSession<TData extends Record<string, unknown>>(
+  config: SessionConfig
+): Promise<Session<TData>> {
+  const name = config.name ?? 'start'
+  const { cookies, sessions } = currentRequest()
+
+  let session = sessions.get(name)
+  if (!session) {
+    const stored = cookies.get(name)?.session
+    const maxAge = (config.maxAge ?? Infinity) * 1000
+    session =
+      stored && Date.now() - stored.createdAt <= maxAge
+        ? structuredClone(stored)
+        : { id: crypto.randomUUID(), createdAt: Date.now(), data: {} }
+    sessions.set(name, session)
+    if (session !== stored) {
+      await updateSession(config)
+    }
+  }
+  return session as Session<TData>
+}
+
+export async function updateSession<TData extends Record<string, unknown>>(
+  config: SessionConfig,
+  update?: Partial<TData> | ((data: Partial<TData>) => Partial<TData>)
+): Promise<Session<TData>> {
+  const name = config.name ?? 'start'
+  const session = await getSession<TData>(config)
+  Object.assign(session.data, typeof update === 'function' ? update(session.data) : update)
+  cookieJar.set(name, {
+    session: structuredClone(session) as Session,
+    expires: config.maxAge ? session.createdAt + config.maxAge * 1000 : undefined,
+  })
+  return session
+}
+
+export async function clearSession(config: Partial<SessionConfig>) {
+  const name = config.name ?? 'start'
+  currentRequest().sessions.delete(name)
+  cookieJar.delete(name)
+}
+
+export async function useSession<TData extends Record<string, unknown>>(config: SessionConfig) {
+  await getSession<TData>(config)
+  const name = config.name ?? 'start'
+  const manager = {
+    get data(): Partial<TData> {
+      return (currentRequest().sessions.get(name)?.data ?? {}) as Partial<TData>
+    },
+    async update(update: Partial<TData> | ((data: Partial<TData>) => Partial<TData>)) {
+      await updateSession(config, update)
+      return manager
+    },
+    async clear() {
+      await clearSession(config)
+      return manager
+    },
+  }
+  return manager
+}
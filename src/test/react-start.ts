@@ -0,0 +1,109 @@
+/**
+ * Test stand-in for @tanstack/react-start
+ * Server functions run in-process, as the Start server runs them for a
+ * request: input validator, then the middleware chain, then the handler.
+ * vitest.config.ts puts it in place of the real module.
+ */
+
+import { handleRequest } from './react-start-server'
+
+type Context = Record<string, unknown>
+
+interface MiddlewareResult<TContext extends Context = Context> {
+  context: TContext
+  result?: unknown
+}
+
+// Passes control down the chain, with `context` added for the rest of it
+type Next<TContext extends Context> = <TAdded extends Context = Record<never, never>>(options?: {
+  context?: TAdded
+}) => Promise<MiddlewareResult<TContext & TAdded>>
+
+interface MiddlewareOptions<TContext extends Context> {
+  data: unknown
+  context: TContext
+  next: Next<TContext>
+}
+
+interface Middleware<TContext extends Context = Context> {
+  dependencies: Middleware[]
+  server(options: MiddlewareOptions<Context>): Promise<MiddlewareResult>
+  // Type only: the context the middleware hands on
+  readonly context?: TContext
+}
+
+// The context a list of middleware hands on, all of it
+type ContextOf<TMiddleware extends Middleware[]> = TMiddleware extends [
+  Middleware<infer TFirst>,
+  ...infer TRest extends Middleware[],
+]
+  ? TFirst & ContextOf<TRest>
+  : Record<never, never>
+
+// Dependencies first, each middleware once
+function flatten(middleware: Middleware[], seen = new Set<Middleware>()): Middleware[] {
+  return middleware.flatMap((item) => {
+    if (seen.has(item)) {
+      return []
+    }
+    seen.add(item)
+    return [...flatten(item.dependencies, seen), item]
+  })
+}
+
+export function createMiddleware(_options?: { type?: string }) {
+  const builder = <TContext extends Context>(dependencies: Middleware[]) => ({
+    middleware: <TMore extends Middleware[]>(more: [...TMore]) =>
+      builder<TContext & ContextOf<TMore>>([...dependencies, ...more]),
+    server: <TOut extends Context>(
+      server: (options: MiddlewareOptions<TContext>) => Promise<MiddlewareResult<TOut>>
+    ): Middleware<TOut> => ({
+      dependencies,
+      // The chain runs dependencies first, so the context has what they add
+      server: server as (options: MiddlewareOptions<Context>) => Promise<MiddlewareResult>,
+    }),
+  })
+  return builder<Record<never, never>>([])
+}
+
+interface ServerFnOptions<TData> {
+  middleware: Middleware[]
+  validator?: (input: unknown) => TData
+}
+
+export function createServerFn(_options?: { method?: string }) {
+  const builder = <TData, TContext extends Context>(options: ServerFnOptions<TData>) => ({
+    middleware: <TMore extends Middleware[]>(middleware: [...TMore]) =>
+      builder<TData, TContext & ContextOf<TMore>>({ ...options, middleware: [...options.middleware, ...middleware] }),
+    inputValidator: <TValidated>(validator: (input: unknown) => TValidated) =>
+      builder<TValidated, TContext>({ middleware: options.middleware, validator }),
+    handler: <TResult>(handler: (options: { data: TData; context: TContext }) => TResult | Promise<TResult>) => {
+      const chain = flatten(options.middleware)
+
+      return (call?: { data?: unknown }): Promise<Awaited<TResult>> =>
+        handleRequest(async (): Promise<Awaited<TResult>> => {
+          const data = options.validator ? options.validator(call?.data) : (call?.data as TData)
+          const run = async (index: number, context: Context): Promise<MiddlewareResult> => {
+            if (index === chain.length) {
+              // What the middleware added, TContext by the types above
+              return { context, result: await handler({ data, context: context as TContext }) }
+            }
+            return chain[index].server({
+              data,
+              context,
+              next: <TAdded extends Context>(next?: { context?: TAdded }) =>
+                run(index + 1, { ...context, ...next?.context }) as Promise<MiddlewareResult<Context & TAdded>>,
+            })
+          }
+          return (await run(0, {})).result as Awaited<TResult>
+        })
+    },
+  })
+  return builder<undefined, Record<never, never>>({ middleware: [] })
+}
+
+export function createServerOnlyFn<TArgs extends unknown[], TResult>(
+  fn: (...args: TArgs) => TResult
+): (...args: TArgs) => TResult {
+  return fn
+}
@@ -0,0 +1,29 @@
+import { defineConfig } from 'vitest/config'
+import viteTsConfigPaths from 'vite-tsconfig-paths'
+import { fileURLToPath, URL } from 'url'
+
+const src = (path: string) => fileURLToPath(new URL(`./src/${path}`, import.meta.url))
+
+// Not vite.config.ts: the Start, Nitro and devtools plugins keep a server
+// running that never lets vitest exit. Server functions run in-process
+// through the stand-ins in src/test instead.
+const config = defineConfig({
+  resolve: {
+    alias: [
+      { find: /^@tanstack\/react-start$/, replacement: src('test/react-start.ts') },
+      { find: /^@tanstack\/react-start\/server$/, replacement: src('test/react-start-server.ts') },
+      { find: '@', replacement: src('') },
+    ],
+  },
+  plugins: [
+    viteTsConfigPaths({
+      projects: ['./tsconfig.json'],
+    }),
+  ],
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+})
+
+export default config